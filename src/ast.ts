@@ -1,5 +1,6 @@
 import { ISymbol, SymbolType } from "./symbol";
 import { ISymbolTable } from "./symbol-table";
+import { StringEncoding } from "./tokenizer";
 import { IType } from "./type";
 
 //
@@ -12,10 +13,42 @@ export interface ASTNode {
     //
     nodeType: string;
 
+    //
+    // 1-based line number where the node starts in the source code.
+    // The location of the node is set by the parser.
+    //
+    line?: number;
+
+    //
+    // 0-based column number where the node starts in the source code.
+    //
+    column?: number;
+
+    //
+    // 0-based offset in the source code where the node starts.
+    //
+    offset?: number;
+
+    //
+    // 1-based line number where the node ends in the source code.
+    //
+    endLine?: number;
+
+    //
+    // 0-based column number just after the end of the node.
+    //
+    endColumn?: number;
+
+    //
+    // 0-based offset in the source code just after the end of the node.
+    //
+    endOffset?: number;
+
     //
     // Specifies the data type for the node when known and appropriate.
+    // The type checker sets this for expressions.
     //
-    type?: string;
+    type?: IType;
 
     //
     // Child nodes that should have code generated before this node.
@@ -27,6 +60,12 @@ export interface ASTNode {
     //
     value?: any;
 
+    //
+    // For string literals, this is the encoding of a prefixed literal's value.
+    // Undefined for plain string literals, whose value is their bytes with one character per byte.
+    //
+    encoding?: StringEncoding;
+
     //
     // If this node references a symbol, the symbol is attached to the node by the symbol resolution pass.
     //
@@ -47,6 +86,11 @@ export interface ASTNode {
     //
     checkConstantAssignment?: boolean;
 
+    //
+    // The doc comment (/// lines) that precedes a function or variable declaration.
+    //
+    docComment?: string;
+
     //
     // Initializer for a declaration.
     //
@@ -62,6 +106,21 @@ export interface ASTNode {
     //
     params?: string[];
 
+    //
+    // If a function node, these are the types of the parameters (undefined for parameters without a type annotation).
+    //
+    paramTypes?: (IType | undefined)[];
+
+    //
+    // If a function node, these are the identifiers of the parameters, which give the location of each parameter.
+    //
+    paramNodes?: ASTNode[];
+
+    //
+    // If a variable or constant declaration, this is the type annotation (undefined when there isn't one).
+    //
+    declaredType?: IType;
+
     //
     // Encodes the return type for a function.
     // 
@@ -72,6 +131,16 @@ export interface ASTNode {
     //
     body?: ASTNode;
 
+    //
+    // For loops desugared from a for-statement, this is the increment that runs after the body (and on continue).
+    //
+    increment?: ASTNode;
+
+    //
+    // For switch statements, the cases (including the default case) in the order they appear.
+    //
+    cases?: ASTNode[];
+
     //
     // If an assigment statement, this is the assignee.
     //
@@ -111,4 +180,24 @@ export interface ASTNode {
     // Arguments to the function, for function calls.
     //
     functionArgs?: ASTNode[];
-}
\ No newline at end of file
+}
+
+//
+// Fields of a node that hold child nodes.
+//
+const CHILD_NODE_FIELDS = [ "children", "functionArgs", "assignee", "initializer", "ifBlock", "elseBlock", "cases", "body", "increment" ] as const;
+
+//
+// Calls a function for each child of a node.
+//
+export function forEachChildNode(node: ASTNode, fn: (child: ASTNode) => void): void {
+    for (const field of CHILD_NODE_FIELDS) {
+        const value = node[field];
+        if (Array.isArray(value)) {
+            value.forEach(fn);
+        }
+        else if (value) {
+            fn(value);
+        }
+    }
+}
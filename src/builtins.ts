@@ -0,0 +1,53 @@
+//
+// Builtin functions that are implemented by the compiler.
+//
+
+import { IType } from "./type";
+
+//
+// The signature of a builtin function.
+//
+export interface IBuiltinSignature {
+    //
+    // The types of the parameters.
+    //
+    params: IType[];
+
+    //
+    // The type of the value returned by the builtin function.
+    //
+    returnType: IType;
+}
+
+//
+// Lookup table for builtin function signatures.
+//
+export interface IBuiltinSignatureMap {
+    [index: string]: IBuiltinSignature | undefined;
+}
+
+const UINT64: IType = { type: "uint64" };
+const BYTES: IType = { type: "byte[]" };
+const ANY: IType = { type: "any" };
+const VOID: IType = { type: "void" };
+
+//
+// Signatures for builtin functions.
+// Accounts can be specified by address or by index, so they are typed as "any".
+//
+export const BUILTINS: IBuiltinSignatureMap = {
+    appGlobalPut: { params: [ BYTES, ANY ], returnType: VOID },
+    appGlobalGet: { params: [ BYTES ], returnType: ANY },
+    appGlobalGetEx: { params: [ UINT64, BYTES ], returnType: { type: "tuple", children: [ ANY, UINT64 ] } },
+    appGlobalDel: { params: [ BYTES ], returnType: VOID },
+    appLocalPut: { params: [ ANY, BYTES, ANY ], returnType: VOID },
+    appLocalGet: { params: [ ANY, BYTES ], returnType: ANY },
+    appLocalGetEx: { params: [ ANY, UINT64, BYTES ], returnType: { type: "tuple", children: [ ANY, UINT64 ] } },
+    appLocalDel: { params: [ ANY, BYTES ], returnType: VOID },
+    btoi: { params: [ BYTES ], returnType: UINT64 },
+    itob: { params: [ UINT64 ], returnType: BYTES },
+    exit: { params: [ UINT64 ], returnType: VOID },
+    itxn_begin: { params: [], returnType: VOID },
+    itxn_field: { params: [ BYTES, ANY ], returnType: VOID },
+    itxn_submit: { params: [], returnType: VOID },
+};
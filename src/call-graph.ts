@@ -0,0 +1,185 @@
+//
+// Records which functions call which other functions.
+//
+
+import { ASTNode, forEachChildNode } from "./ast";
+import { ISymbol, SymbolType } from "./symbol";
+
+//
+// The functions in a program and the calls between them.
+//
+export interface ICallGraph {
+    //
+    // Calls to functions made by global code.
+    //
+    globalCalls: ASTNode[];
+
+    //
+    // The declaration of each function, indexed by the symbol for the function.
+    //
+    functions: Map<ISymbol, ASTNode>;
+
+    //
+    // Calls to functions made by each function, indexed by the symbol for the calling function.
+    //
+    calls: Map<ISymbol, ASTNode[]>;
+}
+
+//
+// Builds the call graph for a program after symbols have been resolved.
+// Calls to builtin functions aren't included.
+//
+export function buildCallGraph(ast: ASTNode): ICallGraph {
+    const callGraph: ICallGraph = {
+        globalCalls: [],
+        functions: new Map<ISymbol, ASTNode>(),
+        calls: new Map<ISymbol, ASTNode[]>(),
+    };
+
+    //
+    // Collects calls made by code, adding them to the list of calls.
+    // Functions declared within the code collect their own calls.
+    //
+    function collectCalls(node: ASTNode, calls: ASTNode[]): void {
+        if (node.nodeType === "function-declaration") {
+            const functionCalls: ASTNode[] = [];
+            if (node.symbol) {
+                callGraph.functions.set(node.symbol, node);
+                callGraph.calls.set(node.symbol, functionCalls);
+            }
+            forEachChildNode(node, child => collectCalls(child, functionCalls));
+            return;
+        }
+
+        if (node.nodeType === "function-call" && node.symbol && node.symbol.type === SymbolType.Function) {
+            calls.push(node);
+        }
+
+        forEachChildNode(node, child => collectCalls(child, calls));
+    }
+
+    collectCalls(ast, callGraph.globalCalls);
+    return callGraph;
+}
+
+//
+// Gets the functions that can call themselves, directly or through other functions.
+//
+export function findRecursiveFunctions(callGraph: ICallGraph): Set<ISymbol> {
+    const recursiveFunctions = new Set<ISymbol>();
+
+    for (const functionSymbol of callGraph.functions.keys()) {
+        //
+        // Searches the functions reachable from the function to see if it can be reached again.
+        //
+        const visited = new Set<ISymbol>();
+        const toVisit = [ functionSymbol ];
+        while (toVisit.length > 0) {
+            const caller = toVisit.pop()!;
+            for (const call of callGraph.calls.get(caller) || []) {
+                if (call.symbol === functionSymbol) {
+                    recursiveFunctions.add(functionSymbol);
+                }
+
+                if (!visited.has(call.symbol!)) {
+                    visited.add(call.symbol!);
+                    toVisit.push(call.symbol!);
+                }
+            }
+        }
+    }
+
+    return recursiveFunctions;
+}
+
+//
+// Fixed scratch slots allocated for the variables of functions.
+//
+export interface IFunctionSlots {
+    //
+    // The first slot for the variables of each function that isn't recursive, indexed by the symbol for the function.
+    //
+    firstSlots: Map<ISymbol, number>;
+
+    //
+    // The number of slots allocated, functions that share slots are only counted once.
+    //
+    numSlots: number;
+}
+
+//
+// Allocates fixed scratch slots, starting from the first slot, for the arguments and local variables of functions that aren't recursive.
+// A function that isn't recursive can't be called again until it returns, so its variables can always use the same slots.
+// Functions that are never live at the same time (neither can be called while the other is running) share slots.
+//
+export function allocateFunctionSlots(callGraph: ICallGraph, recursiveFunctions: Set<ISymbol>, firstSlot: number): IFunctionSlots {
+
+    //
+    // The functions that call each function.
+    //
+    const callers = new Map<ISymbol, ISymbol[]>();
+    for (const [ caller, calls ] of callGraph.calls) {
+        for (const call of calls) {
+            const functionCallers = callers.get(call.symbol!) || [];
+            functionCallers.push(caller);
+            callers.set(call.symbol!, functionCallers);
+        }
+    }
+
+    //
+    // Gets the functions that can be running when a function is called.
+    //
+    function getLiveFunctions(functionSymbol: ISymbol): Set<ISymbol> {
+        const liveFunctions = new Set<ISymbol>();
+        const toVisit = [ functionSymbol ];
+        while (toVisit.length > 0) {
+            for (const caller of callers.get(toVisit.pop()!) || []) {
+                if (!liveFunctions.has(caller)) {
+                    liveFunctions.add(caller);
+                    toVisit.push(caller);
+                }
+            }
+        }
+        return liveFunctions;
+    }
+
+    const offsets = new Map<ISymbol, number>();
+
+    //
+    // Gets the offset from the first slot to the slots for a function.
+    // The slots for a function follow the slots of every function that can be running when it is called.
+    // Functions that aren't recursive can't call themselves so this always terminates.
+    //
+    function getOffset(functionSymbol: ISymbol): number {
+        let offset = offsets.get(functionSymbol);
+        if (offset === undefined) {
+            offset = 0;
+            for (const liveFunction of getLiveFunctions(functionSymbol)) {
+                if (!recursiveFunctions.has(liveFunction)) {
+                    offset = Math.max(offset, getOffset(liveFunction) + getNumVariables(liveFunction));
+                }
+            }
+            offsets.set(functionSymbol, offset);
+        }
+        return offset;
+    }
+
+    function getNumVariables(functionSymbol: ISymbol): number {
+        return callGraph.functions.get(functionSymbol)!.scope!.getNumVariables();
+    }
+
+    const functionSlots: IFunctionSlots = {
+        firstSlots: new Map<ISymbol, number>(),
+        numSlots: 0,
+    };
+
+    for (const functionSymbol of callGraph.functions.keys()) {
+        if (!recursiveFunctions.has(functionSymbol)) {
+            const offset = getOffset(functionSymbol);
+            functionSlots.firstSlots.set(functionSymbol, firstSlot + offset);
+            functionSlots.numSlots = Math.max(functionSlots.numSlots, offset + getNumVariables(functionSymbol));
+        }
+    }
+
+    return functionSlots;
+}
@@ -6,18 +6,30 @@
 //    aqua 
 //
 //      npx ts-node -T ./src/cli.js exec test.aqua     => Runs the file using the built in interpretter.
+//      npx ts-node -T ./src/cli.js layout test.aqua   => Prints how the program uses scratch space.
 //      npx ts-node -T ./src/cli.js test.aqua          => Compiles to TEAL.    
 //      npx ts-node -T ./src/cli.js                    => Runs the REPL.
 //
 // Or:
 //
-//      npx ts-node -T ./src/cli.js exec test.aqua     => Runs the file using the built in interpretter.
-//      npx ts-node -T ./src/cli.js test.aqua          => Compiles to TEAL.    
-//      npx ts-node -T ./src/cli.js                    => Runs the REPL.
+//      aqua exec test.aqua                            => Runs the file using the built in interpretter.
+//      aqua layout test.aqua                          => Prints how the program uses scratch space.
+//      aqua test.aqua                                 => Compiles to TEAL.
+//      aqua                                           => Runs the REPL.
+//
+// Exits with code 1 when the file has errors.
+//
+// Options:
+//
+//      --comments                  => Outputs comments in the generated TEAL code.
+//      --warnings-as-errors        => Warnings stop compilation.
+//      --suppress AQ5001,AQ5002    => Doesn't report warnings with these codes.
+//      --target 8                  => Generates code for this version of TEAL.
+//      -O                          => Removes redundant instructions from the generated TEAL code.
 //
 
 import { execute } from "teal-interpreter";
-import { compile, ICompilerOptions } from ".";
+import { compile, Compiler, formatDiagnostic, formatProgramLayout, getProgramLayout, ICompilerOptions } from ".";
 import { parse } from "./parser";
 
 const packageJson = require("../package.json");
@@ -28,7 +40,7 @@ const colorJson = require('color-json');
 
 async function main() {
 
-    const argv = minimist(process.argv.slice(2));
+    const argv = minimist(process.argv.slice(2), { boolean: [ "O" ] });
     const numArgs = argv._.length;
 
     if (argv.version) {
@@ -46,12 +58,19 @@ async function main() {
         
         const filePath = argv._.shift();
 
+        if (argv.target !== undefined && !/^\d+$/.test(String(argv.target))) {
+            console.error(`Invalid target "${argv.target}", expected a version of TEAL, e.g. --target 8.`);
+            process.exitCode = 1;
+            return;
+        }
+
         // Compile a file.
         const aquaCode = await fs.readFile(filePath, "utf8");
+        const options = compilerOptions(argv);
         if (command === "exec") {
             console.log(`== TEAL ==`);
 
-            const tealCode = compile(aquaCode);
+            const tealCode = compileFile(aquaCode, options);
             if (tealCode !== undefined) {
                 console.log(tealCode.split("\n")
                     .map((line, index) => `${index+1}: ${line}`)
@@ -72,14 +91,25 @@ async function main() {
             const ast = parse(aquaCode, err => {
                 console.error(`${err.line}:${err.column}: Error: ${err.message}`);
             });
-            console.log(colorJson(ast));
+            console.log(colorJson(JSON.stringify(ast, (key, value) => typeof value === "bigint" ? value.toString() : value))); // Number literals are BigInts, which JSON doesn't support.
+        }
+        else if (command === "layout") {
+            // Print the layout of scratch space.
+            const compiler = new Compiler(options);
+            const result = compiler.compile(aquaCode);
+            for (const diagnostic of result.diagnostics) {
+                console.error(formatDiagnostic(diagnostic));
+            }
+
+            if (compiler.errors.length > 0) {
+                process.exitCode = 1;
+            }
+            else {
+                console.log(formatProgramLayout(getProgramLayout(result.ast, compiler.targetVersion)));
+            }
         }
         else {
-            const options: ICompilerOptions = {
-                outputComments: !!argv.comments,
-            };
-            
-            const tealCode = compile(aquaCode, options);
+            const tealCode = compileFile(aquaCode, options);
             if (tealCode !== undefined) {
                 // Print compiled output.
                 console.log(tealCode);
@@ -132,9 +162,48 @@ main()
 // Gets a command if one is found in the arguments.
 //
 function recogniseCommand(args: string[]): string | undefined {
-    if (args[0] === "exec" || args[0] === "ast") {
+    if (args[0] === "exec" || args[0] === "ast" || args[0] === "layout") {
         return args.shift();
     }
 
     return undefined;
-}
\ No newline at end of file
+}
+
+//
+// Gets options for the compiler from the command line arguments.
+//
+function compilerOptions(argv: any): ICompilerOptions {
+    const suppress: string[] = [];
+    for (const codes of [].concat(argv.suppress || [])) { // The option can be repeated.
+        suppress.push(...String(codes).split(",").map(code => code.trim()));
+    }
+
+    return {
+        outputComments: !!argv.comments,
+        warningsAsErrors: !!argv["warnings-as-errors"],
+        suppress: suppress,
+        targetVersion: argv.target !== undefined ? Number(argv.target) : undefined,
+        optimize: !!argv.O,
+    };
+}
+
+//
+// Compiles the code in a file and prints errors and warnings.
+// Returns undefined if there were errors.
+//
+function compileFile(code: string, options: ICompilerOptions): string | undefined {
+    const compiler = new Compiler(options);
+    const result = compiler.compile(code);
+
+    for (const diagnostic of result.diagnostics) {
+        console.error(formatDiagnostic(diagnostic));
+    }
+
+    if (compiler.errors.length > 0) {
+        console.error(`Found ${compiler.errors.length} errors.`);
+        process.exitCode = 1;
+        return undefined;
+    }
+
+    return result.output;
+}
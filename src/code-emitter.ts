@@ -1,3 +1,22 @@
+import { DEFAULT_TEAL_VERSION } from "./config";
+import { checkOpcodeVersion } from "./opcodes";
+import { optimizeInstructions } from "./optimizer";
+
+//
+// A location in the Aqua code.
+//
+export interface ISourceLocation {
+    //
+    // 1-based line number.
+    //
+    line: number;
+
+    //
+    // 0-based column number.
+    //
+    column: number;
+}
+
 export interface IInstruction {
     //
     // The code emitted for the instruction.
@@ -28,6 +47,11 @@ export interface IInstruction {
     // The number of items on the stack after this instruction executes.
     //
     numItemsOnStackAfter: number;
+
+    //
+    // The location of the Aqua code the instruction was generated from, when known.
+    //
+    sourceLocation?: ISourceLocation;
 }
 
 //
@@ -36,9 +60,14 @@ export interface IInstruction {
 export interface ICodeEmitter {
 
     //
-    // Resets the emitter knowledge of the stack to zero.
+    // The version of TEAL that code is emitted for.
     //
-    resetStack(): void;
+    readonly tealVersion: number;
+
+    //
+    // Resets the emitter knowledge of the stack to zero (or to the specified number of items).
+    //
+    resetStack(numItems?: number): void;
 
     //
     // Gets the current stack size.
@@ -68,8 +97,33 @@ export interface ICodeEmitter {
     // Generated an id for use with control statements, etc.
     //
     genId(): number;
+
+    //
+    // Gets the instructions that have been emitted.
+    //
+    getInstructions(): IInstruction[];
+
+    //
+    // Removes redundant instructions from the code that has been emitted.
+    //
+    optimize(): void;
+
+    //
+    // Gets the location of the Aqua code that instructions are currently generated from.
+    //
+    getSourceLocation(): ISourceLocation | undefined;
+
+    //
+    // Sets the location of the Aqua code that following instructions are generated from.
+    //
+    setSourceLocation(sourceLocation: ISourceLocation | undefined): void;
 }
 
+//
+// The first TEAL version with the popn opcode.
+//
+const POPN_VERSION = 8;
+
 export class CodeEmitter implements ICodeEmitter {
 
     //
@@ -88,10 +142,15 @@ export class CodeEmitter implements ICodeEmitter {
     private generatedId = 0;
 
     //
-    // Resets the emitter knowledge of the stack to zero.
+    // The location of the Aqua code that instructions are currently generated from.
+    //
+    private sourceLocation?: ISourceLocation = undefined;
+
+    //
+    // Resets the emitter knowledge of the stack to zero (or to the specified number of items).
     //
-    resetStack(): void {
-        this.numItemsOnStack = 0;
+    resetStack(numItems?: number): void {
+        this.numItemsOnStack = numItems !== undefined ? numItems : 0;
     }
 
     //
@@ -101,7 +160,7 @@ export class CodeEmitter implements ICodeEmitter {
         return this.numItemsOnStack;
     }
 
-    constructor(private debugMode: boolean) {
+    constructor(private debugMode: boolean, readonly tealVersion: number = DEFAULT_TEAL_VERSION) {
     }
 
     //
@@ -120,6 +179,8 @@ export class CodeEmitter implements ICodeEmitter {
     // Adds a line of code to the output.
     //
     add(code: string, numItemsAdded: number, numItemsRemoved: number, comment?: string): void {
+        checkOpcodeVersion(code, this.tealVersion);
+
         this.output.push({
             code,
             comment,
@@ -127,6 +188,7 @@ export class CodeEmitter implements ICodeEmitter {
             numItemsRemoved,
             numItemsOnStackBefore: this.numItemsOnStack,
             numItemsOnStackAfter: this.numItemsOnStack + numItemsAdded -  numItemsRemoved,
+            sourceLocation: this.sourceLocation,
         });
         this.numItemsOnStack += numItemsAdded;
         this.numItemsOnStack -= numItemsRemoved;
@@ -150,6 +212,20 @@ export class CodeEmitter implements ICodeEmitter {
         this.add(`${labelName}:`, 0, 0, comment);
     }
 
+    //
+    // Gets the instructions that have been emitted.
+    //
+    getInstructions(): IInstruction[] {
+        return this.output;
+    }
+
+    //
+    // Removes redundant instructions from the code that has been emitted.
+    //
+    optimize(): void {
+        this.output = optimizeInstructions(this.output);
+    }
+
     //
     // Get lines of generate code.
     //
@@ -173,6 +249,11 @@ export class CodeEmitter implements ICodeEmitter {
     //
     popAll(): void {
 
+        if (this.tealVersion >= POPN_VERSION && this.numItemsOnStack > 1) {
+            this.add(`popn ${this.numItemsOnStack}`, 0, this.numItemsOnStack, `Popping all items.`);
+            return;
+        }
+
         while (this.numItemsOnStack > 0) {
             this.add(`pop`, 0, 1, `Popping all items.`);
         }
@@ -185,4 +266,18 @@ export class CodeEmitter implements ICodeEmitter {
         this.generatedId += 1;
         return this.generatedId;
     }
+
+    //
+    // Gets the location of the Aqua code that instructions are currently generated from.
+    //
+    getSourceLocation(): ISourceLocation | undefined {
+        return this.sourceLocation;
+    }
+
+    //
+    // Sets the location of the Aqua code that following instructions are generated from.
+    //
+    setSourceLocation(sourceLocation: ISourceLocation | undefined): void {
+        this.sourceLocation = sourceLocation;
+    }
 }
\ No newline at end of file
@@ -1,7 +1,16 @@
 import { ASTNode } from "../ast";
+import { allocateFunctionSlots, buildCallGraph, findRecursiveFunctions } from "../call-graph";
 import { ICodeEmitter } from "../code-emitter";
 import { MAX_SCRATCH } from "../config";
-import { OnErrorFn } from "../error";
+import { locateError, OnErrorFn } from "../error";
+import { ISymbol } from "../symbol";
+import { IType } from "../type";
+
+//
+// The first TEAL version with the proto, frame_dig and frame_bury opcodes.
+// From this version the arguments and local variables of functions are kept in the AVM stack frame instead of scratch.
+//
+export const STACK_FRAME_VERSION = 8;
 
 //
 // Lookup table to cached visitors.
@@ -21,6 +30,11 @@ export const visitors: INodeVisitorMap = {
     "operation": require("./visitors/operation").default,
     "string-literal": require("./visitors/string-literal").default,
     "while-statement": require("./visitors/while-statement").default,
+    "do-while-statement": require("./visitors/do-while-statement").default,
+    "break-statement": require("./visitors/break-statement").default,
+    "continue-statement": require("./visitors/continue-statement").default,
+    "conditional-expression": require("./visitors/conditional-expression").default,
+    "switch-statement": require("./visitors/switch-statement").default,
 };
 
 //
@@ -35,6 +49,49 @@ interface INodeVisitorMap {
     [index: string]: NodeVisitorFn | undefined;
 }
 
+//
+// Labels that break and continue statements jump to.
+//
+export interface IJumpTargets {
+    //
+    // The label that a break statement jumps to.
+    //
+    breakLabel: string;
+
+    //
+    // The label that a continue statement jumps to.
+    // Undefined for switch statements, where continue applies to the enclosing loop.
+    //
+    continueLabel?: string;
+}
+
+//
+// Gets the number of values on the stack for a value of the type.
+//
+export function getNumStackValues(type: IType): number {
+    if (type.type === "void") {
+        return 0;
+    }
+    else if (type.type === "uint64" || type.type === "byte[]") {
+        return 1;
+    }
+    else if (type.type === "tuple") {
+        return type.children!.length;
+    }
+    else {
+        throw new Error(`Unexpected return type ${type.type}`);
+    }
+}
+
+//
+// Returns true if the last statement of a function body is a return statement.
+//
+function endsWithReturn(body: ASTNode): boolean {
+    const statements = body.nodeType === "block-statement" ? body.children || [] : [ body ];
+    const lastStatement = statements[statements.length - 1];
+    return lastStatement !== undefined && lastStatement.nodeType === "return-statement";
+}
+
 //
 // Handles TEAL code generation for the Aqua compiler.
 //
@@ -53,6 +110,35 @@ export interface ICodeGenerator {
     // Tracks the function for which we are generating code.
     //
     readonly curFunction?: ASTNode;
+
+    //
+    // Tracks the jump targets for the loops and switches enclosing the code we are generating, innermost last.
+    //
+    readonly jumpTargets: IJumpTargets[];
+
+    //
+    // The version of TEAL that code is generated for.
+    //
+    readonly tealVersion: number;
+
+    //
+    // Gets the position of a local variable in the AVM stack frame for the current function,
+    // or undefined when the variable is stored in scratch.
+    // Arguments are below the frame pointer (negative positions) and other local variables are above it.
+    //
+    getFramePosition(symbol: ISymbol): number | undefined;
+
+    //
+    // Gets the scratch slot for a global variable or for a local variable of the current function that is in a fixed slot,
+    // or undefined when the variable is in a stack frame.
+    //
+    getScratchSlot(symbol: ISymbol): number | undefined;
+
+    //
+    // Returns true when the arguments and local variables of a function are in a stack frame in scratch,
+    // which must be removed before the function returns.
+    //
+    hasScratchFrame(functionNode: ASTNode): boolean;
 }
 
 //
@@ -65,11 +151,32 @@ export class CodeGenerator implements ICodeGenerator {
     //
     private functions: ASTNode[] = [];
 
+    //
+    // The first of the fixed scratch slots for the variables of each function that isn't recursive.
+    //
+    private functionSlots = new Map<ISymbol, number>();
+
+    //
+    // Functions that can call themselves. They check at runtime that their stack frames don't overwrite other variables.
+    //
+    private recursiveFunctions = new Set<ISymbol>();
+
+    //
+    // The last scratch slot used by global variables and the variables of functions in fixed slots.
+    // Stack frames in scratch must stay above it.
+    //
+    private lastFixedSlot = 0;
+
     //
     // Tracks the function for which we are generating code.
     //
     curFunction?: ASTNode = undefined;
 
+    //
+    // Tracks the jump targets for the loops and switches enclosing the code we are generating, innermost last.
+    //
+    jumpTargets: IJumpTargets[] = [];
+
     //
     // A simple interface that allows the tokenizer to report an error and continue scanning.
     //
@@ -79,6 +186,13 @@ export class CodeGenerator implements ICodeGenerator {
         this.onError = onError;
     }
 
+    //
+    // The version of TEAL that code is generated for.
+    //
+    get tealVersion(): number {
+        return this.codeEmitter.tealVersion;
+    }
+
     //
     // Generates code from an AST representation of an Aqua script.
     //
@@ -96,10 +210,18 @@ export class CodeGenerator implements ICodeGenerator {
 
         this.collectFunctions(ast);
 
+        this.functionSlots = new Map<ISymbol, number>();
+        this.recursiveFunctions = new Set<ISymbol>();
+        this.lastFixedSlot = ast.scope ? ast.scope.getNumVariables() : 0;
+
+        if (this.functions.length > 0 && this.tealVersion < STACK_FRAME_VERSION) {
+            this.allocateScratch(ast);
+        }
+
         //
         // Setup the initial stack pointer to the end of the scratch space.
         //
-        if (this.functions.length > 0) {
+        if (this.functions.some(functionNode => this.hasScratchFrame(functionNode))) {
             this.codeEmitter.section(`Function data stack setup.`);
             this.codeEmitter.add(`int ${MAX_SCRATCH}`, 1, 0, `Initial stack pointer.`);
             this.codeEmitter.add(`store 0`, 0, 1, `Set stack_pointer`);
@@ -121,7 +243,12 @@ export class CodeGenerator implements ICodeGenerator {
                 //
                 // Generate code for functions at the end.
                 //            
-                this.generateFunctionCode(functionNode);
+                try {
+                    this.generateFunctionCode(functionNode);
+                }
+                catch (err: any) {
+                    this.onError(locateError(err, functionNode));
+                }
             }    
 
             this.codeEmitter.section();
@@ -139,8 +266,63 @@ export class CodeGenerator implements ICodeGenerator {
         //
         this.curFunction = functionNode;
 
+        //
+        // The setup and cleanup code is generated from the function declaration.
+        //
+        if (functionNode.line !== undefined) {
+            this.codeEmitter.setSourceLocation({ line: functionNode.line, column: functionNode.column! });
+        }
+
         this.codeEmitter.label(functionNode.value!);
 
+        //
+        // The arguments to the function are on the stack when it is called.
+        //
+        this.codeEmitter.resetStack(functionNode.params ? functionNode.params.length : 0);
+
+        if (this.tealVersion >= STACK_FRAME_VERSION) {
+            this.generateStackFrameSetup(functionNode);
+        }
+        else if (this.hasScratchFrame(functionNode)) {
+            this.generateScratchFrameSetup(functionNode);
+        }
+        else {
+            this.generateFixedSlotsSetup(functionNode);
+        }
+
+        this.codeEmitter.section(`Function body.`);
+
+        //
+        // Now we can generate code for the function.
+        //
+        this.visitNode(functionNode.body!);
+
+        if (this.hasScratchFrame(functionNode)) {
+            // 
+            // Restore the original stack pointer.
+            //
+            this.codeEmitter.label(`${functionNode.value}-cleanup`, `Function cleanup. Restores the previous stack frame`);
+            this.codeEmitter.add(`load 0`, 1, 0, `Loads current stack_pointer`)
+            this.codeEmitter.add(`loads`, 1, 1, `Loads previous_stack_pointer`);
+            this.codeEmitter.add(`store 0`, 0, 1, `stack_pointer = previous_stack_pointer`); // Restore stack_pointer to previous_stack_pointer.
+        }
+
+        //
+        // Return from the function if not already done so explicitly.
+        // Without a stack frame in scratch to remove, a return statement at the end of the body has already returned.
+        //
+        if (this.hasScratchFrame(functionNode) || !endsWithReturn(functionNode.body!)) {
+            this.codeEmitter.add(`retsub`, 0, 0, `Catch all return.`);
+        }
+
+        this.codeEmitter.setSourceLocation(undefined);
+    }
+
+    //
+    // Generates code to allocate a stack frame in scratch for a function and to move the arguments into it.
+    //
+    private generateScratchFrameSetup(functionNode: ASTNode) {
+
         this.codeEmitter.section(`Function setup.`);
         this.codeEmitter.add(`load 0`, 1, 0, `Take copy of current stack_pointer on stack so that we can save it as the "previous stack pointer" in the new stack frame.`);
 
@@ -150,10 +332,20 @@ export class CodeGenerator implements ICodeGenerator {
         this.codeEmitter.section(`Allocate stack frame for the function being called and update the stack_pointer.`);
         this.codeEmitter.section(`stack_pointer = stack_pointer - (num_locals+1)`);
         this.codeEmitter.add(`load 0`, 1, 0, `stack_pointer`);
-        this.codeEmitter.add(`int ${functionNode.scope!.getNumSymbols()+1}`, 1, 0, `num_locals+1`); // Amount used by this function + 1 for saved stack_pointer.
-        this.codeEmitter.add(`-`, 2, 1, `stack_pointer - (num_locals+1)`); // stack_pointer - (num_locals+1)
+        this.codeEmitter.add(`int ${functionNode.scope!.getNumVariables()+1}`, 1, 0, `num_locals+1`); // Amount used by this function + 1 for saved stack_pointer.
+        this.codeEmitter.add(`-`, 1, 2, `stack_pointer - (num_locals+1)`); // stack_pointer - (num_locals+1)
         this.codeEmitter.add(`store 0`, 0, 1, `stack_pointer = stack_pointer - (num_locals+1)`); // stack_pointer = stack_pointer - (num_locals+1)
 
+        if (functionNode.symbol && this.recursiveFunctions.has(functionNode.symbol)) {
+            //
+            // The depth of recursion isn't known until runtime, so check that the new stack frame doesn't overwrite other variables.
+            //
+            this.codeEmitter.add(`load 0`, 1, 0, `stack_pointer`);
+            this.codeEmitter.add(`int ${this.lastFixedSlot}`, 1, 0, `The last scratch slot used by global variables and functions.`);
+            this.codeEmitter.add(`>`, 1, 2);
+            this.codeEmitter.add(`assert`, 0, 1, `Stack overflow: the stack frame would overwrite other variables.`);
+        }
+
         //
         // Store previous stack pointer at position one in the new stack frame 
         // (so that the previous stack frame can be restored after this function has returned).
@@ -166,34 +358,138 @@ export class CodeGenerator implements ICodeGenerator {
         if (functionNode.params) {
             this.codeEmitter.section(`Setup arguments.`);
 
-            for (const param of functionNode.params.reverse()) { // Parameters are popped from the stack in reverse order to what they are pushed.
+            for (const param of functionNode.params.slice().reverse()) { // Parameters are popped from the stack in reverse order to what they are pushed.
                 const symbol = functionNode.scope!.get(param); 
                 this.codeEmitter.add(`int ${symbol!.position}`, 1, 0); // Variable position within stack frame.                    
                 this.codeEmitter.add(`load 0`, 1, 0); // stack_pointer
-                this.codeEmitter.add(`+`, 2, 1); // stack_pointer + variable_position
+                this.codeEmitter.add(`+`, 1, 2); // stack_pointer + variable_position
+                this.codeEmitter.add(`swap`, 2, 2, `The argument must be above the address for "stores".`);
                 this.codeEmitter.add(`stores`, 0, 2, `Stores "${param}".`);
             }
         }
+    }
 
-        this.codeEmitter.section(`Function body.`);
+    //
+    // Allocates fixed scratch slots for the variables of functions that aren't recursive, after the global variables.
+    // Only recursive functions need stack frames, which are allocated in the remaining scratch.
+    //
+    private allocateScratch(ast: ASTNode): void {
+        const callGraph = buildCallGraph(ast);
+        this.recursiveFunctions = findRecursiveFunctions(callGraph);
+
+        const numGlobals = this.lastFixedSlot;
+        const { firstSlots, numSlots } = allocateFunctionSlots(callGraph, this.recursiveFunctions, numGlobals + 1);
+        this.functionSlots = firstSlots;
+        this.lastFixedSlot = numGlobals + numSlots;
+
+        for (const [ functionSymbol, firstSlot ] of firstSlots) {
+            const functionNode = callGraph.functions.get(functionSymbol)!;
+            const lastSlot = firstSlot + functionNode.scope!.getNumVariables() - 1;
+            if (lastSlot > MAX_SCRATCH) {
+                const message = `The variables of ${functionSymbol.name} need scratch slots up to ${lastSlot}, but the last scratch slot is ${MAX_SCRATCH}.`;
+                this.onError(locateError(new Error(message), functionNode));
+            }
+        }
 
         //
-        // Now we can generate code for the function.
+        // The first stack frame of a recursive function is allocated below the initial stack pointer,
+        // if that overlaps the fixed slots every call would fail the stack overflow check at runtime.
         //
-        this.visitNode(functionNode.body!);
+        for (const functionSymbol of this.recursiveFunctions) {
+            const functionNode = callGraph.functions.get(functionSymbol)!;
+            const frameSize = functionNode.scope!.getNumVariables() + 1;
+            if (this.lastFixedSlot >= MAX_SCRATCH - frameSize) {
+                const message = `The stack frame of ${functionSymbol.name} needs ${frameSize} scratch slots, but global variables and functions use the scratch slots up to ${this.lastFixedSlot}.`;
+                this.onError(locateError(new Error(message), functionNode));
+            }
+        }
+    }
 
-        // 
-        // Restore the original stack pointer.
+    //
+    // Generates code to move the arguments for a function into its fixed scratch slots.
+    //
+    private generateFixedSlotsSetup(functionNode: ASTNode) {
+        if (functionNode.params && functionNode.params.length > 0) {
+            this.codeEmitter.section(`Setup arguments.`);
+
+            for (const param of functionNode.params.slice().reverse()) { // Parameters are popped from the stack in reverse order to what they are pushed.
+                const symbol = functionNode.scope!.get(param)!;
+                this.codeEmitter.add(`store ${this.getScratchSlot(symbol)}`, 0, 1, `Stores "${param}".`);
+            }
+        }
+    }
+
+    //
+    // Generates code to set up the AVM stack frame for a function.
+    // The arguments stay on the stack where the caller put them and space for other local variables is pushed above them.
+    // The retsub opcode removes the frame and leaves the return values.
+    //
+    private generateStackFrameSetup(functionNode: ASTNode) {
+        const numArgs = functionNode.params ? functionNode.params.length : 0;
+        const numReturnValues = getNumStackValues(functionNode.returnType!);
+        this.codeEmitter.add(`proto ${numArgs} ${numReturnValues}`, 0, 0);
+
+        //
+        // The arguments are now part of the stack frame.
         //
-        this.codeEmitter.label(`${functionNode.value}-cleanup`, `Function cleanup. Restores the previous stack frame`);
-        this.codeEmitter.add(`load 0`, 1, 0, `Loads current stack_pointer`)
-        this.codeEmitter.add(`loads`, 1, 1, `Loads previous_stack_pointer`);
-        this.codeEmitter.add(`store 0`, 0, 1, `stack_pointer = previous_stack_pointer`); // Restore stack_pointer to previous_stack_pointer.
+        this.codeEmitter.resetStack();
+
+        const numLocals = functionNode.scope!.getNumVariables() - numArgs;
+        if (numLocals > 0) {
+            this.codeEmitter.add(`int 0`, 1, 0, `Allocates local variables.`);
+            if (numLocals > 1) {
+                this.codeEmitter.add(`dupn ${numLocals - 1}`, numLocals - 1, 0);
+            }
+            this.codeEmitter.resetStack();
+        }
+    }
+
+    //
+    // Gets the position of a local variable in the AVM stack frame for the current function,
+    // or undefined when the variable is stored in scratch.
+    //
+    getFramePosition(symbol: ISymbol): number | undefined {
+        if (symbol.isGlobal || this.tealVersion < STACK_FRAME_VERSION) {
+            return undefined;
+        }
 
         //
-        // Return from the function if not already done so explicitly.
+        // Arguments are allocated first, from position 1 of the function's scope.
         //
-        this.codeEmitter.add(`retsub`, 0, 0, `Catch all return.`);
+        const numArgs = this.curFunction?.params ? this.curFunction.params.length : 0;
+        return symbol.position! - 1 - numArgs;
+    }
+
+    //
+    // Gets the scratch slot for a global variable or for a local variable of the current function that is in a fixed slot,
+    // or undefined when the variable is in a stack frame.
+    //
+    getScratchSlot(symbol: ISymbol): number | undefined {
+        if (symbol.isGlobal) {
+            return symbol.position;
+        }
+
+        const firstSlot = this.curFunction?.symbol ? this.functionSlots.get(this.curFunction.symbol) : undefined;
+        if (firstSlot === undefined) {
+            return undefined;
+        }
+
+        //
+        // Variables are allocated from position 1 of the function's scope.
+        //
+        return firstSlot + symbol.position! - 1;
+    }
+
+    //
+    // Returns true when the arguments and local variables of a function are in a stack frame in scratch,
+    // which must be removed before the function returns.
+    //
+    hasScratchFrame(functionNode: ASTNode): boolean {
+        if (this.tealVersion >= STACK_FRAME_VERSION) {
+            return false;
+        }
+
+        return !functionNode.symbol || !this.functionSlots.has(functionNode.symbol);
     }
 
     //
@@ -206,12 +502,22 @@ export class CodeGenerator implements ICodeGenerator {
             throw new Error(`No visitor for node ${node.nodeType}`);
         }
 
+        //
+        // Records the location of the node for the instructions generated from it.
+        //
+        const parentSourceLocation = this.codeEmitter.getSourceLocation();
+        if (node.line !== undefined) {
+            this.codeEmitter.setSourceLocation({ line: node.line, column: node.column! });
+        }
+
         try {
             visitor(node, this, this.codeEmitter);
         }
         catch (err: any) {
-            this.onError(err);
+            this.onError(locateError(err, node));
         }
+
+        this.codeEmitter.setSourceLocation(parentSourceLocation);
     }
 
     //
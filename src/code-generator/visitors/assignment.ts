@@ -2,6 +2,13 @@ import { ICodeGenerator } from "..";
 import { ASTNode } from "../../ast";
 import { ICodeEmitter } from "../../code-emitter";
 
+//
+// Gets the instruction that copies the value at a depth in the stack to the top of the stack.
+//
+function copyValue(depth: number): string {
+    return depth === 0 ? `dup` : `dig ${depth}`;
+}
+
 export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
     codeGenerator.visitChildren(node);
 
@@ -9,41 +16,54 @@ export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitt
         //
         // Assign top stack item to the variable.
         //
-        if (!node.symbol!.isGlobal) {
+        const scratchSlot = codeGenerator.getScratchSlot(node.symbol!);
+        const framePosition = codeGenerator.getFramePosition(node.symbol!);
+        if (scratchSlot !== undefined) {
+            codeEmitter.add(`dup`, 1, 0); // Copies the value to be stored to top of stack. This is so that the earlier value can be used in higher expressions.
+            codeEmitter.add(`store ${scratchSlot}`, 0, 1);
+        }
+        else if (framePosition !== undefined) {
+            codeEmitter.add(`dup`, 1, 0); // Copies the value to be stored to top of stack. This is so that the earlier value can be used in higher expressions.
+            codeEmitter.add(`frame_bury ${framePosition}`, 0, 1);
+        }
+        else {
             // 
             // Prepare a reference to the stack frame location for the variable being assigned.
             //
             codeEmitter.add(`int ${node.symbol!.position}`, 1, 0); // Variable position within stack frame.                    
             codeEmitter.add(`load 0`, 1, 0); // stack_pointer
-            codeEmitter.add(`+`, 2, 1); // stack_pointer + variable_position
+            codeEmitter.add(`+`, 1, 2); // stack_pointer + variable_position
 
             codeEmitter.add(`dig 1`, 1, 0); // Copies the earlier value to the top of stack. This is the value to be stored.
             codeEmitter.add(`stores`, 0, 2);
         }
-        else {
-            codeEmitter.add(`dup`, 1, 0); // Copies the value to be stored to top of stack. This is so that the earlier value can be used in higher expressions.
-            codeEmitter.add(`store ${node.symbol!.position}`, 0, 1);
-        }
     }
     else if (node.symbols) {
         //
-        // Assign stack items to symbols in reverse.
+        // The values of the tuple are on the stack with the last value on top.
+        // Each value is copied to the top of the stack to be stored, so the tuple can still be used in higher expressions.
         //
-        for (const symbol of node.symbols.reverse()) { //TODO: This can be integrated with the above!
-            //todo: not sure how correct this!
-            if (!symbol.isGlobal) {
+        node.symbols.forEach((symbol, index) => {
+            const depth = node.symbols!.length - 1 - index;
+            const scratchSlot = codeGenerator.getScratchSlot(symbol);
+            const framePosition = codeGenerator.getFramePosition(symbol);
+            if (scratchSlot !== undefined) {
+                codeEmitter.add(copyValue(depth), 1, 0);
+                codeEmitter.add(`store ${scratchSlot}`, 0, 1);
+            }
+            else if (framePosition !== undefined) {
+                codeEmitter.add(copyValue(depth), 1, 0);
+                codeEmitter.add(`frame_bury ${framePosition}`, 0, 1);
+            }
+            else {
                 codeEmitter.add(`int ${symbol.position}`, 1, 0); // Variable position within stack frame.                    
                 codeEmitter.add(`load 0`, 1, 0); // stack_pointer
-                codeEmitter.add(`+`, 2, 1); // stack_pointer + variable_position
+                codeEmitter.add(`+`, 1, 2); // stack_pointer + variable_position
 
-                codeEmitter.add(`dig 1`, 1, 0); // Copies the earlier value to the top of stack. This is the value to be stored.
+                codeEmitter.add(copyValue(depth + 1), 1, 0); // Copies the value below the address to the top of stack. This is the value to be stored.
                 codeEmitter.add(`stores`, 0, 2);
             }
-            else {
-                codeEmitter.add(`dup`, 1, 0); // Copies the value to be stored to top of stack. This is so that the earlier value can be used in higher expressions.
-                codeEmitter.add(`store ${symbol.position}`, 0, 1);
-            }
-        }
+        });
     }
     else {
         throw new Error(`No symbol or symbols set for assignment statement.`);
@@ -0,0 +1,12 @@
+import { ICodeGenerator } from "..";
+import { ASTNode } from "../../ast";
+import { ICodeEmitter } from "../../code-emitter";
+
+export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    const jumpTargets = codeGenerator.jumpTargets[codeGenerator.jumpTargets.length-1];
+    if (!jumpTargets) {
+        throw new Error(`"break" can only be used inside a loop or switch.`);
+    }
+
+    codeEmitter.add(`b ${jumpTargets.breakLabel}`, 0, 0);
+}
@@ -0,0 +1,36 @@
+import { ICodeGenerator } from "..";
+import { ASTNode } from "../../ast";
+import { ICodeEmitter } from "../../code-emitter";
+
+export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    const [ condition, consequent, alternate ] = node.children!;
+
+    codeGenerator.visitNode(condition);
+
+    const controlStatementId = codeEmitter.genId();
+
+    codeEmitter.add(`bz cond_else_${controlStatementId}`, 0, 1);
+
+    const stackSizeBefore = codeEmitter.getStackSize();
+
+    codeGenerator.visitNode(consequent);
+
+    const consequentStackSize = codeEmitter.getStackSize();
+
+    codeEmitter.add(`b cond_end_${controlStatementId}`, 0, 0);
+
+    codeEmitter.label(`cond_else_${controlStatementId}`);
+
+    //
+    // Only one branch is executed, so the alternate starts from the same stack as the consequent.
+    //
+    codeEmitter.resetStack(stackSizeBefore);
+
+    codeGenerator.visitNode(alternate);
+
+    if (codeEmitter.getStackSize() !== consequentStackSize) {
+        throw new Error(`Both branches of a conditional expression must produce the same number of values.`);
+    }
+
+    codeEmitter.label(`cond_end_${controlStatementId}`);
+}
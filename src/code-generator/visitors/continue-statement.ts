@@ -0,0 +1,15 @@
+import { ICodeGenerator } from "..";
+import { ASTNode } from "../../ast";
+import { ICodeEmitter } from "../../code-emitter";
+
+export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    //
+    // Switch statements don't have a continue label, so find the innermost loop.
+    //
+    const jumpTargets = codeGenerator.jumpTargets.slice().reverse().find(jumpTargets => jumpTargets.continueLabel !== undefined);
+    if (!jumpTargets) {
+        throw new Error(`"continue" can only be used inside a loop.`);
+    }
+
+    codeEmitter.add(`b ${jumpTargets.continueLabel}`, 0, 0);
+}
@@ -3,6 +3,10 @@ import { ASTNode } from "../../ast";
 import { ICodeEmitter } from "../../code-emitter";
 
 export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    if (node.symbol && node.symbol.value) {
+        return; // Uses of the constant have been replaced by its value.
+    }
+
     codeEmitter.resetStack();
 
     codeGenerator.visitChildren(node);
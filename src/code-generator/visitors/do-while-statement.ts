@@ -0,0 +1,25 @@
+import { ICodeGenerator } from "..";
+import { ASTNode } from "../../ast";
+import { ICodeEmitter } from "../../code-emitter";
+
+export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    const controlStatementId = codeEmitter.genId();
+
+    codeEmitter.label(`loop_start_${controlStatementId}`);
+
+    codeGenerator.jumpTargets.push({
+        breakLabel: `loop_end_${controlStatementId}`,
+        continueLabel: `loop_continue_${controlStatementId}`, // Continue must test the condition before looping.
+    });
+
+    codeGenerator.visitNode(node.body!);
+
+    codeGenerator.jumpTargets.pop();
+
+    codeEmitter.label(`loop_continue_${controlStatementId}`);
+
+    codeGenerator.visitChildren(node);
+
+    codeEmitter.add(`bnz loop_start_${controlStatementId}`, 0, 1);
+    codeEmitter.label(`loop_end_${controlStatementId}`)
+}
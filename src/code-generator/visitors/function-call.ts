@@ -1,4 +1,4 @@
-import { ICodeGenerator } from "..";
+import { getNumStackValues, ICodeGenerator } from "..";
 import { ASTNode } from "../../ast";
 import { ICodeEmitter } from "../../code-emitter";
 
@@ -152,24 +152,7 @@ export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitt
     }
     else {
         // Otherwise we "call" the user's function.
-        let numItemsAdded: number;
-        
-        if (node.symbol!.returnType!.type === "void") { //TODO: Would be good to delegate this logic to the type system.
-            numItemsAdded = 0;
-        }
-        else if (node.symbol!.returnType!.type === "uint64") {
-            numItemsAdded = 1;
-        }
-        else if (node.symbol!.returnType!.type === "byte[]") {
-            numItemsAdded = 1;
-        }
-        else if (node.symbol!.returnType!.type === "tuple") {
-            numItemsAdded = node.symbol!.returnType!.children!.length;
-        }
-        else {
-            throw new Error(`Unexpected return type ${node.symbol!.returnType!.type}`);
-        }
-
+        const numItemsAdded = getNumStackValues(node.symbol!.returnType!);
 
         codeEmitter.add(`callsub ${node.value}`, numItemsAdded, node.functionArgs?.length || 0);
     }
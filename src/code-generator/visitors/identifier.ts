@@ -5,13 +5,18 @@ import { ICodeEmitter } from "../../code-emitter";
 export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
     codeGenerator.visitChildren(node);
 
-    if (node.symbol!.isGlobal) {                    
-        codeEmitter.add(`load ${node.symbol!.position}`, 1, 0);
+    const scratchSlot = codeGenerator.getScratchSlot(node.symbol!);
+    const framePosition = codeGenerator.getFramePosition(node.symbol!);
+    if (scratchSlot !== undefined) {                    
+        codeEmitter.add(`load ${scratchSlot}`, 1, 0);
+    }
+    else if (framePosition !== undefined) {
+        codeEmitter.add(`frame_dig ${framePosition}`, 1, 0); // Loads variable from the stack frame.
     }
     else {
         codeEmitter.add(`load 0`, 1, 0); // stack_pointer
         codeEmitter.add(`int ${node.symbol!.position}`, 1, 0); // Variable position within stack frame.                    
-        codeEmitter.add(`+`, 2, 1); // stack_pointer + variable_position
+        codeEmitter.add(`+`, 1, 2); // stack_pointer + variable_position
         codeEmitter.add(`loads`, 1, 1); // Loads variable onto stack.
     }
 }
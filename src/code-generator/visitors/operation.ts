@@ -2,7 +2,37 @@ import { ICodeGenerator } from "..";
 import { ASTNode } from "../../ast";
 import { ICodeEmitter } from "../../code-emitter";
 
+//
+// Generates code for a short-circuiting logical operator.
+// The right hand side is only evaluated when the left hand side doesn't already decide the result.
+//
+function generateShortCircuit(node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    const controlStatementId = codeEmitter.genId();
+    const endLabel = node.opcode === "&&" ? `and_end_${controlStatementId}` : `or_end_${controlStatementId}`;
+
+    codeGenerator.visitNode(node.children![0]);
+
+    codeEmitter.add(`dup`, 1, 0, `Keeps the left hand side as the result if it decides the outcome.`);
+    codeEmitter.add(node.opcode === "&&" ? `bz ${endLabel}` : `bnz ${endLabel}`, 0, 1);
+    codeEmitter.add(`pop`, 0, 1, `The right hand side decides the outcome.`);
+
+    codeGenerator.visitNode(node.children![1]);
+
+    codeEmitter.label(endLabel);
+
+    //
+    // Normalizes the result to 0 or 1, the same as the TEAL opcode.
+    //
+    codeEmitter.add(`int 0`, 1, 0);
+    codeEmitter.add(`!=`, 1, 2);
+}
+
 export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    if (node.opcode === "&&" || node.opcode === "||") {
+        generateShortCircuit(node, codeGenerator, codeEmitter);
+        return;
+    }
+
     codeGenerator.visitChildren(node);
 
     let output = node.opcode!;
@@ -7,7 +7,13 @@ export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitt
 
     codeGenerator.visitChildren(node);
 
-    if (codeGenerator.curFunction) {
+    if (codeGenerator.curFunction && !codeGenerator.hasScratchFrame(codeGenerator.curFunction)) {
+        //
+        // Return directly, there is no stack frame in scratch to remove.
+        //
+        codeEmitter.add(`retsub`, 0, codeEmitter.getStackSize());
+    }
+    else if (codeGenerator.curFunction) {
         //
         // End of function! Jump to function cleanup code.
         //
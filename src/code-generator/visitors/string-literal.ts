@@ -2,6 +2,36 @@ import { ICodeGenerator } from "..";
 import { ASTNode } from "../../ast";
 import { ICodeEmitter } from "../../code-emitter";
 
+//
+// Returns true if a string can be output as a quoted TEAL string without escaping.
+//
+function isPrintable(value: string): boolean {
+    return /^[\x20-\x7e]*$/.test(value) && !/["\\]/.test(value);
+}
+
+//
+// Converts a string with one character per byte to hex.
+//
+function toHex(value: string): string {
+    return Array.from(value)
+        .map(ch => ch.charCodeAt(0).toString(16).padStart(2, "0"))
+        .join("");
+}
+
 export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
-    codeEmitter.add(`byte \"${node.value!}\"`, 1, 0);
+    if (node.encoding === "hex") {
+        codeEmitter.add(`byte 0x${node.value!}`, 1, 0);
+    }
+    else if (node.encoding === "base64" || node.encoding === "base32") {
+        codeEmitter.add(`byte ${node.encoding} ${node.value!}`, 1, 0);
+    }
+    else if (isPrintable(node.value!)) {
+        codeEmitter.add(`byte \"${node.value!}\"`, 1, 0);
+    }
+    else {
+        //
+        // Bytes that can't be quoted are output as hex.
+        //
+        codeEmitter.add(`byte 0x${toHex(node.value!)}`, 1, 0);
+    }
 }
@@ -0,0 +1,118 @@
+import { ICodeGenerator } from "..";
+import { ASTNode } from "../../ast";
+import { ICodeEmitter } from "../../code-emitter";
+
+//
+// The first TEAL version with the match and switch opcodes.
+//
+const MATCH_SWITCH_VERSION = 8;
+
+//
+// If the case values are exactly the numbers 0 to N-1 (in any order) returns the labels to jump to indexed by value.
+// This allows the TEAL switch opcode to jump directly to the case. Otherwise returns undefined.
+//
+function getSwitchLabels(valueCases: ASTNode[], caseLabels: string[]): string[] | undefined {
+    const switchLabels: string[] = [];
+
+    for (let caseIndex = 0; caseIndex < valueCases.length; caseIndex++) {
+        const caseValue = valueCases[caseIndex].children![0];
+        if (caseValue.nodeType !== "number") {
+            return undefined;
+        }
+
+        const value = Number(caseValue.value);
+        if (value >= valueCases.length || switchLabels[value] !== undefined) {
+            return undefined;
+        }
+
+        switchLabels[value] = caseLabels[caseIndex];
+    }
+
+    return switchLabels;
+}
+
+//
+// Returns true if a case value is a literal (or a named constant like OnComplete.NoOp).
+// The match opcode needs every case value on the stack before the comparison, so it is only used when
+// the case values are literals. Other case values are evaluated one at a time until one matches,
+// the same as below TEAL version 8, so function calls in case values run the same at every version.
+//
+function isLiteralCase(caseNode: ASTNode): boolean {
+    const caseValue = caseNode.children![0];
+    return caseValue.nodeType === "number"
+        || caseValue.nodeType === "string-literal"
+        || (caseValue.nodeType === "operation" && caseValue.opcode === "int" && caseValue.args !== undefined);
+}
+
+export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitter: ICodeEmitter) {
+    const controlStatementId = codeEmitter.genId();
+    const endLabel = `switch_end_${controlStatementId}`;
+    const cases = node.cases!;
+    const caseLabels = cases.map((caseNode, caseIndex) => `switch_case_${controlStatementId}_${caseIndex}`);
+    const defaultCaseIndex = cases.findIndex(caseNode => caseNode.children!.length === 0);
+    const noMatchLabel = defaultCaseIndex >= 0 ? caseLabels[defaultCaseIndex] : endLabel;
+    const valueCases = cases.filter(caseNode => caseNode.children!.length > 0);
+    const valueCaseLabels = caseLabels.filter((caseLabel, caseIndex) => cases[caseIndex].children!.length > 0);
+    const stackSizeBefore = codeEmitter.getStackSize();
+
+    if (codeGenerator.tealVersion >= MATCH_SWITCH_VERSION && valueCases.length > 0 && valueCases.every(isLiteralCase)) {
+        const switchLabels = getSwitchLabels(valueCases, valueCaseLabels);
+        if (switchLabels) {
+            codeGenerator.visitNode(node.children![0]);
+            codeEmitter.add(`switch ${switchLabels.join(" ")}`, 0, 1);
+        }
+        else {
+            for (const valueCase of valueCases) {
+                codeGenerator.visitChildren(valueCase);
+            }
+
+            codeGenerator.visitNode(node.children![0]);
+            codeEmitter.add(`match ${valueCaseLabels.join(" ")}`, 0, valueCases.length + 1);
+        }
+
+        codeEmitter.add(`b ${noMatchLabel}`, 0, 0);
+    }
+    else {
+        //
+        // The scrutinee is evaluated once and compared against each case value in turn.
+        //
+        codeGenerator.visitNode(node.children![0]);
+
+        for (let caseIndex = 0; caseIndex < valueCases.length; caseIndex++) {
+            codeEmitter.add(`dup`, 1, 0, `Keeps the value being switched on for the next comparison.`);
+            codeGenerator.visitChildren(valueCases[caseIndex]);
+            codeEmitter.add(`==`, 1, 2);
+            codeEmitter.add(`bnz switch_match_${controlStatementId}_${caseIndex}`, 0, 1);
+        }
+
+        codeEmitter.add(`pop`, 0, 1);
+        codeEmitter.add(`b ${noMatchLabel}`, 0, 0);
+
+        //
+        // Discards the value being switched on before jumping to the matching case.
+        //
+        for (let caseIndex = 0; caseIndex < valueCases.length; caseIndex++) {
+            codeEmitter.label(`switch_match_${controlStatementId}_${caseIndex}`);
+            codeEmitter.resetStack(stackSizeBefore + 1);
+            codeEmitter.add(`pop`, 0, 1);
+            codeEmitter.add(`b ${valueCaseLabels[caseIndex]}`, 0, 0);
+        }
+    }
+
+    codeGenerator.jumpTargets.push({
+        breakLabel: endLabel,
+    });
+
+    //
+    // Case bodies are output in order so that execution falls through to the next case unless there is a break.
+    //
+    for (let caseIndex = 0; caseIndex < cases.length; caseIndex++) {
+        codeEmitter.label(caseLabels[caseIndex]);
+        codeEmitter.resetStack(stackSizeBefore);
+        codeGenerator.visitNode(cases[caseIndex].body!);
+    }
+
+    codeGenerator.jumpTargets.pop();
+
+    codeEmitter.label(endLabel);
+}
@@ -11,8 +11,22 @@ export default function (node: ASTNode, codeGenerator: ICodeGenerator, codeEmitt
 
     codeEmitter.add(`bz loop_end_${controlStatementId}`, 0, node.children!.length > 0 ? 1 : 0);
 
+    codeGenerator.jumpTargets.push({
+        breakLabel: `loop_end_${controlStatementId}`,
+        continueLabel: node.increment
+            ? `loop_continue_${controlStatementId}` // The increment must run before the condition is tested again.
+            : `loop_start_${controlStatementId}`,
+    });
+
     codeGenerator.visitNode(node.body!);
 
+    codeGenerator.jumpTargets.pop();
+
+    if (node.increment) {
+        codeEmitter.label(`loop_continue_${controlStatementId}`);
+        codeGenerator.visitNode(node.increment);
+    }
+
     codeEmitter.add(`b loop_start_${controlStatementId}`, 0, 0);
     codeEmitter.label(`loop_end_${controlStatementId}`)
 }
@@ -3,4 +3,14 @@
 //
 
 // https://developer.algorand.org/docs/get-details/dapps/avm/teal/specification/#scratch-space
-export const MAX_SCRATCH = 255;
\ No newline at end of file
+export const MAX_SCRATCH = 255;
+
+// https://developer.algorand.org/docs/get-details/dapps/avm/teal/specification/#stack-types
+export const MAX_UINT64 = BigInt("18446744073709551615");
+
+// https://developer.algorand.org/docs/get-details/dapps/avm/teal/specification/#versions
+export const DEFAULT_TEAL_VERSION = 5;
+
+// The range of TEAL versions that code can be generated for.
+export const MIN_TEAL_VERSION = 2;
+export const MAX_TEAL_VERSION = 10;
@@ -0,0 +1,317 @@
+//
+// Evaluates expressions whose values are known at compile time.
+//
+
+import { ASTNode, forEachChildNode } from "./ast";
+import { MAX_UINT64 } from "./config";
+import { locateError, OnErrorFn } from "./error";
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const UINT64_BITS = BigInt(64);
+
+//
+// Evaluates an operator on uint64 values.
+// Throws an error when the operation would fail at runtime.
+//
+type Uint64OperatorFn = (...operands: bigint[]) => bigint;
+
+//
+// Converts a condition to a uint64 value, the same as TEAL.
+//
+function fromBoolean(condition: boolean): bigint {
+    return condition ? ONE : ZERO;
+}
+
+//
+// Checks that the result of an operation fits in a uint64.
+//
+function checkOverflow(result: bigint, description: string): bigint {
+    if (result > MAX_UINT64) {
+        throw new Error(`Overflow: the result of ${description} is more than the largest uint64 (${MAX_UINT64}).`);
+    }
+
+    return result;
+}
+
+//
+// Checks the divisor of a division or remainder.
+//
+function checkDivisor(divisor: bigint): bigint {
+    if (divisor === ZERO) {
+        throw new Error(`Division by zero.`);
+    }
+
+    return divisor;
+}
+
+//
+// Checks the number of bits to shift by.
+//
+function checkShift(numBits: bigint): bigint {
+    if (numBits >= UINT64_BITS) {
+        throw new Error(`Can't shift by ${numBits} bits, the shift must be less than 64.`);
+    }
+
+    return numBits;
+}
+
+//
+// Operators with a single operand, all other operators have two operands.
+//
+const UNARY_OPERATORS = new Set([ "!", "~" ]);
+
+//
+// Operators that are evaluated at compile time when all their operands are uint64 constants.
+//
+const UINT64_OPERATORS: { [opcode: string]: Uint64OperatorFn | undefined } = {
+    "+": (a, b) => checkOverflow(a + b, `${a} + ${b}`),
+    "-": (a, b) => {
+        if (b > a) {
+            throw new Error(`Underflow: the result of ${a} - ${b} is less than zero.`);
+        }
+        return a - b;
+    },
+    "*": (a, b) => checkOverflow(a * b, `${a} * ${b}`),
+    "/": (a, b) => a / checkDivisor(b),
+    "%": (a, b) => a % checkDivisor(b),
+    "<": (a, b) => fromBoolean(a < b),
+    "<=": (a, b) => fromBoolean(a <= b),
+    ">": (a, b) => fromBoolean(a > b),
+    ">=": (a, b) => fromBoolean(a >= b),
+    "&&": (a, b) => fromBoolean(a !== ZERO && b !== ZERO),
+    "||": (a, b) => fromBoolean(a !== ZERO || b !== ZERO),
+    "!": a => fromBoolean(a === ZERO),
+    "&": (a, b) => a & b,
+    "|": (a, b) => a | b,
+    "^": (a, b) => a ^ b,
+    "~": a => MAX_UINT64 ^ a,
+    "shl": (a, b) => (a << checkShift(b)) & MAX_UINT64,
+    "shr": (a, b) => a >> checkShift(b),
+};
+
+//
+// Operators that compare two constants of the same type.
+//
+const EQUALITY_OPERATORS: { [opcode: string]: ((equal: boolean) => bigint) | undefined } = {
+    "==": equal => fromBoolean(equal),
+    "!=": equal => fromBoolean(!equal),
+};
+
+//
+// Gets the result of a logical operator when its left operand decides the result,
+// or undefined if the right operand is needed.
+//
+function getShortCircuitResult(node: ASTNode, left: ASTNode): bigint | undefined {
+    if (left.nodeType !== "number") {
+        return undefined;
+    }
+
+    if (node.opcode === "&&" && left.value === ZERO) {
+        return ZERO;
+    }
+
+    if (node.opcode === "||" && left.value !== ZERO) {
+        return ONE;
+    }
+
+    return undefined;
+}
+
+//
+// Gets the bytes of a string literal with one character per byte.
+// Returns undefined when the bytes aren't known until the literal is assembled.
+//
+function getBytes(node: ASTNode): string | undefined {
+    if (node.encoding === undefined) {
+        return node.value;
+    }
+
+    if (node.encoding === "hex") {
+        return (node.value as string).replace(/[0-9a-fA-F]{2}/g, hex => String.fromCharCode(parseInt(hex, 16)));
+    }
+
+    return undefined;
+}
+
+//
+// Returns true if an operation can be evaluated at compile time when its operands are the literals provided.
+//
+function canEvaluate(node: ASTNode, operands: ASTNode[]): boolean {
+    if (node.args) {
+        return false; // Opcodes with arguments read the transaction or the environment.
+    }
+
+    const opcode = node.opcode!;
+    if (EQUALITY_OPERATORS[opcode] !== undefined && operands.length === 2) {
+        const [ left, right ] = operands;
+        if (left.nodeType === "number" && right.nodeType === "number") {
+            return true;
+        }
+
+        return left.nodeType === "string-literal" && right.nodeType === "string-literal"
+            && getBytes(left) !== undefined && getBytes(right) !== undefined;
+    }
+
+    return UINT64_OPERATORS[opcode] !== undefined
+        && operands.length === (UNARY_OPERATORS.has(opcode) ? 1 : 2)
+        && operands.every(operand => operand.nodeType === "number");
+}
+
+//
+// Evaluates an operation on literals, returning the number for the result.
+//
+function evaluate(node: ASTNode, operands: ASTNode[]): ASTNode {
+    const opcode = node.opcode!;
+    const equalityOperator = EQUALITY_OPERATORS[opcode];
+    if (equalityOperator) {
+        const [ left, right ] = operands;
+        const equal = left.nodeType === "number"
+            ? left.value === right.value
+            : getBytes(left) === getBytes(right);
+        return { nodeType: "number", value: equalityOperator(equal) };
+    }
+
+    const operator = UINT64_OPERATORS[opcode]!;
+    return { nodeType: "number", value: operator(...operands.map(operand => operand.value as bigint)) };
+}
+
+//
+// Returns true if an expression only uses literals and constants that are known at compile time,
+// so that it can be evaluated by constant folding.
+// The symbols in the expression must have been resolved.
+//
+export function isConstantExpression(node: ASTNode): boolean {
+    return getConstantOperand(node) !== undefined;
+}
+
+//
+// Gets a literal with the type of a constant expression, or undefined if the expression isn't constant.
+//
+function getConstantOperand(node: ASTNode): ASTNode | undefined {
+    switch (node.nodeType) {
+        case "number":
+        case "string-literal":
+            return node;
+
+        case "identifier": {
+            //
+            // A constant's value can only use symbols declared before it, so this always terminates.
+            //
+            const value = node.symbol && node.symbol.value;
+            return value && getConstantOperand(value);
+        }
+
+        case "operation": {
+            const operands: ASTNode[] = [];
+            for (const child of node.children || []) {
+                const operand = getConstantOperand(child);
+                if (!operand) {
+                    return undefined;
+                }
+                operands.push(operand);
+            }
+
+            if (!canEvaluate(node, operands)) {
+                return undefined;
+            }
+
+            return { nodeType: "number", value: ZERO }; // Operators always produce uint64 values.
+        }
+    }
+
+    return undefined;
+}
+
+//
+// Replaces a node with a literal, keeping the location and type of the node.
+//
+function replaceWithLiteral(node: ASTNode, literal: ASTNode): void {
+    delete node.children;
+    delete node.symbol;
+    delete node.opcode;
+    delete node.args;
+    delete node.numItemsAdded;
+    delete node.numItemsRemoved;
+
+    node.nodeType = literal.nodeType;
+    node.value = literal.value;
+    if (literal.encoding !== undefined) {
+        node.encoding = literal.encoding;
+    }
+}
+
+//
+// Folds constant expressions and replaces constants with their values.
+//
+export class ConstantFolding {
+
+    //
+    // A simple interface that allows constant folding to report an error and continue.
+    //
+    private onError: OnErrorFn;
+
+    constructor(onError: OnErrorFn) {
+        this.onError = onError;
+    }
+
+    //
+    // Replaces operations on literals with the literal for their result, and uses of constants with their values.
+    // Runs after type checking, so the types of replaced nodes are kept.
+    //
+    foldConstants(ast: ASTNode): void {
+        this.visitNode(ast);
+    }
+
+    //
+    // Folds constants in a node and its children.
+    //
+    private visitNode(node: ASTNode): void {
+        try {
+            if (node.nodeType === "operation" && (node.opcode === "&&" || node.opcode === "||") && node.children) {
+                //
+                // The right operand isn't evaluated when the left operand decides the result,
+                // so it isn't folded and errors in it aren't reported.
+                //
+                const [ left, right ] = node.children;
+                this.visitNode(left);
+
+                const result = getShortCircuitResult(node, left);
+                if (result !== undefined) {
+                    replaceWithLiteral(node, { nodeType: "number", value: result });
+                    return;
+                }
+
+                this.visitNode(right);
+            }
+            else {
+                forEachChildNode(node, child => {
+                    if (child !== node.assignee) { // The variables that are assigned aren't values.
+                        this.visitNode(child);
+                    }
+                });
+            }
+
+            if (node.nodeType === "identifier" && node.symbol && node.symbol.value) {
+                //
+                // Constants are declared before they are used, so their values have already been folded.
+                // The value is only left unfolded when an error has been reported for it.
+                //
+                const value = node.symbol.value;
+                if (value.nodeType === "number" || value.nodeType === "string-literal") {
+                    replaceWithLiteral(node, value);
+                }
+            }
+            else if (node.nodeType === "operation" && node.children) {
+                const operands = node.children;
+                if (operands.every(operand => operand.nodeType === "number" || operand.nodeType === "string-literal")
+                    && canEvaluate(node, operands)) {
+                    replaceWithLiteral(node, evaluate(node, operands));
+                }
+            }
+        }
+        catch (err: any) {
+            this.onError(locateError(err, node));
+        }
+    }
+}
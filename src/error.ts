@@ -1,3 +1,23 @@
+//
+// The severity of a diagnostic. Only errors stop compilation.
+//
+export type Severity = "error" | "warning" | "info";
+
+//
+// Stable codes that identify each kind of diagnostic, e.g. so that a kind of warning can be suppressed.
+//
+export enum DiagnosticCode {
+    SyntaxError = "AQ1001",
+    SymbolError = "AQ2001",
+    TypeError = "AQ3001",
+    ConstantError = "AQ3002",
+    CodeGenerationError = "AQ4001",
+    UnusedVariable = "AQ5001",
+    UnusedFunction = "AQ5002",
+    UnreachableCode = "AQ5003",
+    ShadowedName = "AQ5004",
+}
+
 //
 // Interface for reporting errors.
 //
@@ -16,6 +36,50 @@ export interface IError {
     // 0-based column number where the error occurred.
     //
     column: number;
+
+    //
+    // 1-based line number where the code that caused the error ends.
+    //
+    endLine?: number;
+
+    //
+    // 0-based column number just after the end of the code that caused the error.
+    //
+    endColumn?: number;
+
+    //
+    // The severity of the error, errors are reported when this isn't set.
+    //
+    severity?: Severity;
+
+    //
+    // The code that identifies the kind of error, when known.
+    //
+    code?: DiagnosticCode;
+}
+
+//
+// An error, warning or informational message about the code being compiled.
+//
+export interface IDiagnostic extends IError {
+    endLine: number;
+    endColumn: number;
+    severity: Severity;
+    code: DiagnosticCode;
+}
+
+//
+// Makes an error from an exception thrown while visiting a node. 
+// The error is reported at the location of the node.
+//
+export function locateError(err: any, node: { line?: number, column?: number, endLine?: number, endColumn?: number }): IError {
+    return {
+        message: err.message,
+        line: node.line!,
+        column: node.column!,
+        endLine: node.endLine,
+        endColumn: node.endColumn,
+    };
 }
 
 //
@@ -1,13 +1,19 @@
 import { CodeEmitter, ICodeEmitter } from "./code-emitter";
 import { CodeGenerator } from "./code-generator";
 import { SymbolResolution } from "./symbol-resolution";
+import { TypeChecker } from "./type-checker";
+import { ConstantFolding } from "./constant-folding";
 import { parse } from "./parser";
 import { ISymbolTable, SymbolTable } from "./symbol-table";
-import { IError } from "./error";
+import { DiagnosticCode, IDiagnostic, IError } from "./error";
 import { ASTNode } from "./ast";
+import { DEFAULT_TEAL_VERSION, MAX_TEAL_VERSION, MIN_TEAL_VERSION } from "./config";
+import { ISerializedNode, ISerializedSymbol, serializeProgram } from "./serialize";
 export { parse, parseExpression } from "./parser";
-export { IError, OnErrorFn } from "./error";
+export { DiagnosticCode, IDiagnostic, IError, OnErrorFn, Severity } from "./error";
 export { ISymbolTable, SymbolTable } from "./symbol-table";
+export { ISerializedNode, ISerializedSymbol } from "./serialize";
+export { formatProgramLayout, FunctionStorage, getProgramLayout, IFunctionFrame, IProgramLayout, IScratchSlots } from "./layout";
 
 const packageJson = require("../package.json");
 
@@ -24,6 +30,48 @@ export interface ICompilerOptions {
     // Enables comments in the generated TEAL code.
     //
     outputComments?: boolean;
+
+    //
+    // Reports warnings as errors, so that warnings stop compilation.
+    //
+    warningsAsErrors?: boolean;
+
+    //
+    // Codes of warnings and informational messages that aren't reported, e.g. [ "AQ5001" ].
+    // Errors can't be suppressed.
+    //
+    suppress?: string[];
+
+    //
+    // The version of TEAL to generate code for. Defaults to DEFAULT_TEAL_VERSION.
+    // Newer versions allow the compiler to use newer opcodes.
+    //
+    targetVersion?: number;
+
+    //
+    // Removes redundant instructions from the generated TEAL code.
+    //
+    optimize?: boolean;
+}
+
+//
+// Maps a line of generated TEAL code to the Aqua code it was generated from.
+//
+export interface ISourceMapEntry {
+    //
+    // 1-based line number in the generated TEAL code.
+    //
+    tealLine: number;
+
+    //
+    // 1-based line number in the Aqua code.
+    //
+    line: number;
+
+    //
+    // 0-based column number in the Aqua code.
+    //
+    column: number;
 }
 
 //
@@ -50,6 +98,16 @@ export interface ICompilerResult {
     // Collects the emitted code.
     //
     codeEmitter: ICodeEmitter;
+
+    //
+    // Errors, warnings and informational messages reported while compiling.
+    //
+    diagnostics: IDiagnostic[];
+
+    //
+    // Maps lines of the output to the Aqua code they were generated from.
+    //
+    sourceMap: ISourceMapEntry[];
 }
 
 export interface ICompiler {
@@ -59,6 +117,11 @@ export interface ICompiler {
     //
     readonly errors: IError[];
 
+    //
+    // Errors, warnings and informational messages collected while compiling.
+    //
+    readonly diagnostics: IDiagnostic[];
+
     //
     // Compiles an Aqua script to TEAL.
     //
@@ -68,19 +131,54 @@ export interface ICompiler {
 export class Compiler implements ICompiler {
 
     //
-    // Errors collected while compiling.
+    // Errors, warnings and informational messages collected while compiling.
     //
-    readonly errors: IError[] = [];
+    readonly diagnostics: IDiagnostic[] = [];
+
+    //
+    // The version of TEAL to generate code for.
+    //
+    readonly targetVersion: number;
 
     constructor(private options?: ICompilerOptions) {
-        this.onCompileError = this.onCompileError.bind(this);
+        this.targetVersion = options?.targetVersion !== undefined ? options.targetVersion : DEFAULT_TEAL_VERSION;
     }
 
     //
-    // Event raised when a compiler error occurs.
+    // Errors collected while compiling.
     //
-    private onCompileError(err: IError) {
-        this.errors.push(err);
+    get errors(): IDiagnostic[] {
+        return this.diagnostics.filter(diagnostic => diagnostic.severity === "error");
+    }
+
+    //
+    // Makes a handler for errors reported by a phase of the compiler.
+    // Errors that don't have a code are given the default code for the phase.
+    //
+    private onCompileError(defaultCode: DiagnosticCode) {
+        return (err: IError) => {
+            const diagnostic: IDiagnostic = {
+                message: err.message,
+                line: err.line,
+                column: err.column,
+                endLine: err.endLine !== undefined ? err.endLine : err.line,
+                endColumn: err.endColumn !== undefined ? err.endColumn : err.column,
+                severity: err.severity || "error",
+                code: err.code || defaultCode,
+            };
+
+            if (diagnostic.severity !== "error") {
+                if (this.options?.suppress?.includes(diagnostic.code)) {
+                    return;
+                }
+
+                if (diagnostic.severity === "warning" && this.options?.warningsAsErrors) {
+                    diagnostic.severity = "error";
+                }
+            }
+
+            this.diagnostics.push(diagnostic);
+        };
     }
 
     //
@@ -88,30 +186,67 @@ export class Compiler implements ICompiler {
     //
     compile(input: string): ICompilerResult {
 
-        const ast = parse(input, this.onCompileError);
+        //
+        // An unsupported version is reported at the start of the code, no code is generated for it.
+        //
+        if (!Number.isInteger(this.targetVersion) || this.targetVersion < MIN_TEAL_VERSION || this.targetVersion > MAX_TEAL_VERSION) {
+            this.onCompileError(DiagnosticCode.CodeGenerationError)({
+                message: `Unsupported TEAL version ${this.targetVersion}, expected a version from ${MIN_TEAL_VERSION} to ${MAX_TEAL_VERSION}.`,
+                line: 1,
+                column: 0,
+            });
+        }
+
+        const ast = parse(input, this.onCompileError(DiagnosticCode.SyntaxError));
 
         let output: string = "";
+        const sourceMap: ISourceMapEntry[] = [];
 
         const symbolTable = new SymbolTable(1); // The stack pointer occupies position 0, so global variables are allocated from position 1.
-        const codeEmitter = new CodeEmitter(!!this.options?.outputComments);
+        const codeEmitter = new CodeEmitter(!!this.options?.outputComments, this.targetVersion);
 
         if (this.errors.length === 0) {
-            const symbolResolution = new SymbolResolution(this.onCompileError);
+            const symbolResolution = new SymbolResolution(this.onCompileError(DiagnosticCode.SymbolError));
             symbolResolution.resolveSymbols(ast, symbolTable);
 
 
+            if (this.errors.length === 0) {
+                const typeChecker = new TypeChecker(this.onCompileError(DiagnosticCode.TypeError));
+                typeChecker.checkTypes(ast);
+            }
+
+            if (this.errors.length === 0) {
+                const constantFolding = new ConstantFolding(this.onCompileError(DiagnosticCode.ConstantError));
+                constantFolding.foldConstants(ast);
+            }
+
             if (this.errors.length === 0) {    
-                const codeGenerator = new CodeGenerator(codeEmitter, this.onCompileError);
+                const codeGenerator = new CodeGenerator(codeEmitter, this.onCompileError(DiagnosticCode.CodeGenerationError));
                 codeGenerator.generateCode(ast);
 
                 if (this.errors.length === 0) {
-                    output = "";
+                    if (this.options?.optimize) {
+                        codeEmitter.optimize();
+                    }
+
+                    const header: string[] = [];
                     if (!this.options?.disableVersionStamp) {
-                        output += `// Aqua v${packageJson.version}\r\n`;
+                        header.push(`// Aqua v${packageJson.version}`);
                     }
                 
-                    output += `#pragma version 5\r\n`;
+                    header.push(`#pragma version ${this.targetVersion}`);
+                    output = header.map(line => line + "\r\n").join("");
                     output += codeEmitter.getOutput().join("\r\n");
+
+                    codeEmitter.getInstructions().forEach((instruction, index) => {
+                        if (instruction.sourceLocation && instruction.code.length > 0) {
+                            sourceMap.push({
+                                tealLine: header.length + index + 1,
+                                line: instruction.sourceLocation.line,
+                                column: instruction.sourceLocation.column,
+                            });
+                        }
+                    });
                 }
             }
         }
@@ -121,10 +256,104 @@ export class Compiler implements ICompiler {
             ast,
             symbolTable,
             codeEmitter,
+            diagnostics: this.diagnostics,
+            sourceMap,
         };
     }
 }
 
+//
+// Statistics about a compiled program.
+//
+export interface IProgramStats {
+    //
+    // The number of lines of TEAL code output, including the header.
+    //
+    numTealLines: number;
+
+    //
+    // The number of TEAL instructions output, not counting labels.
+    //
+    numInstructions: number;
+
+    //
+    // The number of scratch slots used by global variables.
+    //
+    numGlobals: number;
+
+    //
+    // The number of functions declared in the program.
+    //
+    numFunctions: number;
+}
+
+//
+// The result of compileProgram. Can be converted to JSON.
+//
+export interface IProgramResult {
+    //
+    // Set when the program compiled without errors.
+    //
+    success: boolean;
+
+    //
+    // The generated TEAL code, or undefined when there are errors.
+    //
+    teal?: string;
+
+    //
+    // Errors, warnings and informational messages reported while compiling.
+    //
+    diagnostics: IDiagnostic[];
+
+    //
+    // The abstract syntax tree that was parsed from the Aqua code.
+    //
+    ast: ISerializedNode;
+
+    //
+    // The symbols referenced from the abstract syntax tree.
+    //
+    symbols: ISerializedSymbol[];
+
+    //
+    // Maps lines of the TEAL code to the Aqua code they were generated from.
+    //
+    sourceMap: ISourceMapEntry[];
+
+    //
+    // Statistics about the compiled program.
+    //
+    stats: IProgramStats;
+}
+
+//
+// Compiles Aqua code to TEAL without writing to the console.
+// The result can be converted to JSON.
+//
+export function compileProgram(source: string, options?: ICompilerOptions): IProgramResult {
+    const compiler = new Compiler(options);
+    const result = compiler.compile(source);
+    const success = compiler.errors.length === 0;
+    const { ast, symbols } = serializeProgram(result.ast);
+    const instructions = success ? result.codeEmitter.getInstructions() : [];
+
+    return {
+        success,
+        teal: success ? result.output : undefined,
+        diagnostics: compiler.diagnostics,
+        ast,
+        symbols,
+        sourceMap: result.sourceMap,
+        stats: {
+            numTealLines: success ? result.output.split("\r\n").length : 0,
+            numInstructions: instructions.filter(instruction => instruction.code.length > 0 && !instruction.code.endsWith(":")).length,
+            numGlobals: result.symbolTable.getNumVariables(),
+            numFunctions: symbols.filter(symbol => symbol.kind === "function").length,
+        },
+    };
+}
+
 //
 // Helper function to compile Aqua code to TEAL and write errors to the console.
 //
@@ -135,7 +364,7 @@ export function compile(code: string, options?: ICompilerOptions): string | unde
         console.error(`Found ${compiler.errors.length} errors.`);
 
         for (const error of compiler.errors) {
-            console.error(`${error.line}:${error.column}: Error: ${error.message}`);
+            console.error(formatDiagnostic(error));
         }
 
         return undefined;
@@ -143,3 +372,11 @@ export function compile(code: string, options?: ICompilerOptions): string | unde
 
     return result.output;
 }
+
+//
+// Formats a diagnostic to be printed, e.g. "2:4: Error AQ2001: Variable y is not declared!".
+//
+export function formatDiagnostic(diagnostic: IDiagnostic): string {
+    const severity = diagnostic.severity.charAt(0).toUpperCase() + diagnostic.severity.slice(1);
+    return `${diagnostic.line}:${diagnostic.column}: ${severity} ${diagnostic.code}: ${diagnostic.message}`;
+}
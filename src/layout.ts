@@ -0,0 +1,234 @@
+//
+// Describes how a compiled program uses scratch space.
+//
+
+import { ASTNode, forEachChildNode } from "./ast";
+import { allocateFunctionSlots, buildCallGraph, findRecursiveFunctions } from "./call-graph";
+import { STACK_FRAME_VERSION } from "./code-generator";
+import { MAX_SCRATCH } from "./config";
+import { ISymbol, SymbolType } from "./symbol";
+
+//
+// A range of scratch slots and what they are used for.
+//
+export interface IScratchSlots {
+    //
+    // The first slot in the range.
+    //
+    firstSlot: number;
+
+    //
+    // The last slot in the range.
+    //
+    lastSlot: number;
+
+    //
+    // What the slots are used for.
+    //
+    description: string;
+}
+
+//
+// Where the arguments and local variables of a function are kept.
+//   - "fixed": the same scratch slots are used by every call, for functions that aren't recursive.
+//   - "scratch": each call allocates a stack frame in scratch.
+//   - "stack": each call has a stack frame in the AVM stack (from TEAL version 8).
+//
+export type FunctionStorage = "fixed" | "scratch" | "stack";
+
+//
+// Describes where a function keeps its variables.
+//
+export interface IFunctionFrame {
+    //
+    // The name of the function.
+    //
+    name: string;
+
+    //
+    // The number of arguments to the function.
+    //
+    numArgs: number;
+
+    //
+    // The number of slots in the stack frame for other local variables.
+    // Variables in blocks that have ended share slots with later variables.
+    //
+    numLocals: number;
+
+    //
+    // Where the function keeps its arguments and local variables.
+    //
+    storage: FunctionStorage;
+
+    //
+    // The first of the fixed scratch slots for the function's variables, when they are in fixed slots.
+    //
+    firstSlot?: number;
+
+    //
+    // The number of scratch slots used by each call, including the previous stack pointer for stack frames in scratch.
+    // Zero when the stack frame is in the AVM stack.
+    //
+    numScratchSlots: number;
+}
+
+//
+// Describes how a compiled program uses scratch space.
+//
+export interface IProgramLayout {
+    //
+    // Ranges of scratch slots in order, covering every slot.
+    //
+    slots: IScratchSlots[];
+
+    //
+    // Where each function keeps its variables.
+    //
+    functions: IFunctionFrame[];
+}
+
+//
+// Gets the layout of scratch space for a program after symbols have been resolved.
+//
+export function getProgramLayout(ast: ASTNode, tealVersion: number): IProgramLayout {
+
+    //
+    // Collects the names of global variables by slot.
+    // Variables in blocks that have ended share slots with later variables.
+    //
+    const globalNames = new Map<number, string[]>();
+
+    function collectGlobals(node: ASTNode): void {
+        if (node.nodeType === "function-declaration") {
+            return;
+        }
+
+        if (node.nodeType === "declare-variable") {
+            for (const symbol of node.symbol ? [ node.symbol ] : node.symbols || []) {
+                if (symbol.isGlobal && symbol.position !== undefined) {
+                    const names = globalNames.get(symbol.position) || [];
+                    names.push(symbol.type === SymbolType.Constant ? `${symbol.name} (constant)` : symbol.name);
+                    globalNames.set(symbol.position, names);
+                }
+            }
+        }
+
+        forEachChildNode(node, collectGlobals);
+    }
+
+    collectGlobals(ast);
+
+    const numGlobals = ast.scope ? ast.scope.getNumVariables() : 0;
+    const callGraph = buildCallGraph(ast);
+    const inScratch = tealVersion < STACK_FRAME_VERSION;
+    const recursiveFunctions = inScratch ? findRecursiveFunctions(callGraph) : new Set<ISymbol>();
+    const functionSlots = inScratch ? allocateFunctionSlots(callGraph, recursiveFunctions, numGlobals + 1) : { firstSlots: new Map<ISymbol, number>(), numSlots: 0 };
+
+    //
+    // Collects the names of functions by fixed slot.
+    // Functions that can't be running at the same time share slots.
+    //
+    const functionNames = new Map<number, string[]>();
+
+    const functions: IFunctionFrame[] = [];
+    for (const [ functionSymbol, functionNode ] of callGraph.functions) {
+        const numArgs = functionNode.params ? functionNode.params.length : 0;
+        const numVariables = functionNode.scope!.getNumVariables();
+        const frame: IFunctionFrame = {
+            name: functionNode.value!,
+            numArgs,
+            numLocals: numVariables - numArgs,
+            storage: "stack",
+            numScratchSlots: 0,
+        };
+        functions.push(frame);
+
+        const firstSlot = functionSlots.firstSlots.get(functionSymbol);
+        if (firstSlot !== undefined) {
+            frame.storage = "fixed";
+            frame.firstSlot = firstSlot;
+            frame.numScratchSlots = numVariables;
+
+            for (let slot = firstSlot; slot < firstSlot + numVariables; slot++) {
+                const names = functionNames.get(slot) || [];
+                names.push(functionSymbol.name);
+                functionNames.set(slot, names);
+            }
+        }
+        else if (inScratch) {
+            frame.storage = "scratch";
+            frame.numScratchSlots = numVariables + 1;
+        }
+    }
+
+    const hasScratchFrames = functions.some(frame => frame.storage === "scratch");
+    const slots: IScratchSlots[] = [];
+    slots.push({ firstSlot: 0, lastSlot: 0, description: hasScratchFrames ? "stack pointer" : "unused" });
+
+    for (let slot = 1; slot <= numGlobals; slot++) {
+        const names = globalNames.get(slot) || [];
+        slots.push({ firstSlot: slot, lastSlot: slot, description: names.join(", ") });
+    }
+
+    let firstUnusedSlot = numGlobals + 1;
+    for (let slot = firstUnusedSlot; slot < firstUnusedSlot + functionSlots.numSlots && slot <= MAX_SCRATCH; slot++) {
+        const names = functionNames.get(slot) || [];
+        slots.push({ firstSlot: slot, lastSlot: slot, description: `variables of ${names.join(", ")}` });
+    }
+    firstUnusedSlot += functionSlots.numSlots;
+    if (hasScratchFrames && firstUnusedSlot < MAX_SCRATCH) {
+        //
+        // The stack pointer starts at MAX_SCRATCH, so the first stack frame is allocated below it.
+        //
+        slots.push({
+            firstSlot: firstUnusedSlot,
+            lastSlot: MAX_SCRATCH - 1,
+            description: `stack frames for function calls, allocated down from slot ${MAX_SCRATCH - 1}`,
+        });
+        firstUnusedSlot = MAX_SCRATCH;
+    }
+
+    if (firstUnusedSlot <= MAX_SCRATCH) {
+        slots.push({ firstSlot: firstUnusedSlot, lastSlot: MAX_SCRATCH, description: "unused" });
+    }
+
+    return { slots, functions };
+}
+
+//
+// Formats the layout of a program to be printed.
+//
+export function formatProgramLayout(layout: IProgramLayout): string {
+    const lines: string[] = [];
+
+    lines.push(`Scratch slots:`);
+    for (const slots of layout.slots) {
+        const range = slots.firstSlot === slots.lastSlot ? `${slots.firstSlot}` : `${slots.firstSlot}-${slots.lastSlot}`;
+        lines.push(`    ${range.padEnd(10)}${slots.description}`);
+    }
+
+    if (layout.functions.length > 0) {
+        lines.push(`Functions:`);
+        for (const frame of layout.functions) {
+            const variables = `${frame.numArgs} argument(s), ${frame.numLocals} local variable slot(s)`;
+            let description: string;
+            if (frame.storage === "fixed") {
+                const lastSlot = frame.firstSlot! + frame.numScratchSlots - 1;
+                const range = frame.numScratchSlots === 0 ? "no scratch slots"
+                    : frame.numScratchSlots === 1 ? `fixed scratch slot ${frame.firstSlot}`
+                    : `fixed scratch slots ${frame.firstSlot}-${lastSlot}`;
+                description = `${range}: ${variables}`;
+            }
+            else if (frame.storage === "scratch") {
+                description = `${frame.numScratchSlots} scratch slots per call: previous stack pointer, ${variables}`;
+            }
+            else {
+                description = `AVM stack frame: ${variables}`;
+            }
+            lines.push(`    ${frame.name.padEnd(10)}${description}`);
+        }
+    }
+
+    return lines.join("\n");
+}
@@ -0,0 +1,117 @@
+//
+// The TEAL opcodes that the compiler can generate.
+//
+
+//
+// Lookup table for the TEAL version in which each opcode was introduced.
+//
+export interface IOpcodeVersionMap {
+    [index: string]: number | undefined;
+}
+
+//
+// The first TEAL version that supports each opcode.
+// https://developer.algorand.org/docs/get-details/dapps/avm/teal/opcodes/
+//
+export const OPCODE_VERSIONS: IOpcodeVersionMap = {
+    "int": 1,
+    "byte": 1,
+    "addr": 1,
+    "arg": 1,
+    "txn": 1,
+    "gtxn": 1,
+    "global": 1,
+    "load": 1,
+    "store": 1,
+    "pop": 1,
+    "dup": 1,
+    "bnz": 1,
+    "err": 1,
+    "btoi": 1,
+    "itob": 1,
+    "+": 1,
+    "-": 1,
+    "*": 1,
+    "/": 1,
+    "%": 1,
+    "<": 1,
+    ">": 1,
+    "<=": 1,
+    ">=": 1,
+    "==": 1,
+    "!=": 1,
+    "!": 1,
+    "&&": 1,
+    "||": 1,
+    "|": 1,
+    "&": 1,
+    "^": 1,
+    "~": 1,
+    "b": 2,
+    "bz": 2,
+    "return": 2,
+    "dup2": 2,
+    "txna": 2,
+    "gtxna": 2,
+    "app_global_put": 2,
+    "app_global_get": 2,
+    "app_global_get_ex": 2,
+    "app_global_del": 2,
+    "app_local_put": 2,
+    "app_local_get": 2,
+    "app_local_get_ex": 2,
+    "app_local_del": 2,
+    "assert": 3,
+    "dig": 3,
+    "swap": 3,
+    "select": 3,
+    "pushint": 3,
+    "pushbytes": 3,
+    "callsub": 4,
+    "retsub": 4,
+    "shl": 4,
+    "shr": 4,
+    "loads": 5,
+    "stores": 5,
+    "cover": 5,
+    "uncover": 5,
+    "itxn_begin": 5,
+    "itxn_field": 5,
+    "itxn_submit": 5,
+    "match": 8,
+    "switch": 8,
+    "proto": 8,
+    "frame_dig": 8,
+    "frame_bury": 8,
+    "bury": 8,
+    "popn": 8,
+    "dupn": 8,
+};
+
+//
+// Gets the opcode from a line of TEAL code, or undefined if the line is a label or is empty.
+//
+export function getOpcode(code: string): string | undefined {
+    const opcode = code.trim().split(/\s+/)[0];
+    if (opcode.length === 0 || opcode.endsWith(":")) {
+        return undefined;
+    }
+
+    return opcode;
+}
+
+//
+// Throws an error if a line of TEAL code uses an opcode that isn't available in the target version of TEAL.
+// Opcodes that aren't known are assumed to be available.
+//
+export function checkOpcodeVersion(code: string, tealVersion: number): void {
+    const opcode = getOpcode(code);
+    if (opcode === undefined) {
+        return;
+    }
+
+    const opcodeVersion = OPCODE_VERSIONS[opcode];
+    if (opcodeVersion !== undefined && opcodeVersion > tealVersion) {
+        throw new Error(`The ${opcode} opcode requires TEAL version ${opcodeVersion} or later, the target is TEAL version ${tealVersion}.`);
+    }
+}
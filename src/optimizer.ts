@@ -0,0 +1,257 @@
+//
+// Peephole optimization of the instructions emitted for a program.
+//
+
+import { IInstruction } from "./code-emitter";
+import { getOpcode } from "./opcodes";
+
+//
+// A change to the list of instructions.
+//
+interface IEdit {
+    //
+    // The index of the instruction to change.
+    //
+    index: number;
+
+    //
+    // The instruction that replaces it, or undefined to remove the instruction.
+    //
+    instruction?: IInstruction;
+}
+
+//
+// A rule that looks for a redundant sequence of instructions starting at an index.
+// Returns the edits that remove the redundancy, or undefined if the rule doesn't match.
+//
+type PeepholeRuleFn = (instructions: IInstruction[], index: number) => IEdit[] | undefined;
+
+//
+// Opcodes that push a single value without side effects and can't fail.
+//
+const PURE_PUSH_OPCODES = new Set<string>([
+    "int",
+    "pushint",
+    "byte",
+    "pushbytes",
+    "addr",
+    "load",
+    "dup",
+    "frame_dig",
+]);
+
+//
+// Opcodes that store the value on top of the stack in a variable.
+//
+const STORE_OPCODES = new Set<string>([
+    "store",
+    "frame_bury",
+]);
+
+//
+// Opcodes after which execution never continues to the next line.
+//
+const TERMINAL_OPCODES = new Set<string>([
+    "b",
+    "return",
+    "retsub",
+    "err",
+]);
+
+//
+// Returns true if the instruction is a label.
+//
+function isLabel(instruction: IInstruction): boolean {
+    return instruction.code.trim().endsWith(":");
+}
+
+//
+// Gets the operand of an instruction, e.g. the label for a branch.
+//
+function getOperand(instruction: IInstruction): string | undefined {
+    return instruction.code.trim().split(/\s+/)[1];
+}
+
+//
+// Gets the index of the next instruction that isn't an empty line, or undefined if there isn't one.
+//
+function nextInstruction(instructions: IInstruction[], index: number): number | undefined {
+    for (let next = index + 1; next < instructions.length; next++) {
+        if (instructions[next].code.trim().length > 0) {
+            return next;
+        }
+    }
+
+    return undefined;
+}
+
+//
+// Makes an edit that removes one item from a pop or popn instruction, or returns undefined if the instruction doesn't pop.
+//
+function removeOnePop(instructions: IInstruction[], index: number | undefined): IEdit | undefined {
+    if (index === undefined) {
+        return undefined;
+    }
+
+    const instruction = instructions[index];
+    const opcode = getOpcode(instruction.code);
+    if (opcode === "pop") {
+        return { index };
+    }
+
+    if (opcode === "popn") {
+        const numItems = Number(getOperand(instruction)) - 1;
+        return {
+            index,
+            instruction: {
+                ...instruction,
+                code: numItems > 1 ? `popn ${numItems}` : `pop`,
+                numItemsRemoved: numItems,
+                numItemsOnStackBefore: instruction.numItemsOnStackBefore - 1,
+            },
+        };
+    }
+
+    return undefined;
+}
+
+//
+// The rules applied by the optimizer.
+//
+const peepholeRules: PeepholeRuleFn[] = [
+
+    //
+    // A value that is stored in a variable and then popped doesn't need to be duplicated:
+    //
+    //      dup; store N; pop   =>   store N
+    //
+    (instructions, index) => {
+        if (getOpcode(instructions[index].code) !== "dup") {
+            return undefined;
+        }
+
+        const storeIndex = nextInstruction(instructions, index);
+        if (storeIndex === undefined || !STORE_OPCODES.has(getOpcode(instructions[storeIndex].code)!)) {
+            return undefined;
+        }
+
+        const popEdit = removeOnePop(instructions, nextInstruction(instructions, storeIndex));
+        if (!popEdit) {
+            return undefined;
+        }
+
+        const store = instructions[storeIndex];
+        return [
+            { index },
+            {
+                index: storeIndex,
+                instruction: {
+                    ...store,
+                    numItemsOnStackBefore: store.numItemsOnStackBefore - 1,
+                    numItemsOnStackAfter: store.numItemsOnStackAfter - 1,
+                },
+            },
+            popEdit,
+        ];
+    },
+
+    //
+    // A value that is pushed and then popped isn't needed:
+    //
+    //      int 0; pop   =>   (nothing)
+    //
+    (instructions, index) => {
+        if (!PURE_PUSH_OPCODES.has(getOpcode(instructions[index].code)!)) {
+            return undefined;
+        }
+
+        const popEdit = removeOnePop(instructions, nextInstruction(instructions, index));
+        if (!popEdit) {
+            return undefined;
+        }
+
+        return [ { index }, popEdit ];
+    },
+
+    //
+    // A branch to the label that follows it isn't needed:
+    //
+    //      b label; label:   =>   label:
+    //
+    (instructions, index) => {
+        if (getOpcode(instructions[index].code) !== "b") {
+            return undefined;
+        }
+
+        const target = `${getOperand(instructions[index])}:`;
+        let next = nextInstruction(instructions, index);
+        while (next !== undefined && isLabel(instructions[next])) {
+            if (instructions[next].code.trim() === target) {
+                return [ { index } ];
+            }
+            next = nextInstruction(instructions, next);
+        }
+
+        return undefined;
+    },
+
+    //
+    // Instructions that follow a branch, return or error can't be reached until the next label:
+    //
+    //      retsub; retsub   =>   retsub
+    //
+    (instructions, index) => {
+        if (!TERMINAL_OPCODES.has(getOpcode(instructions[index].code)!)) {
+            return undefined;
+        }
+
+        const next = nextInstruction(instructions, index);
+        if (next === undefined || isLabel(instructions[next])) {
+            return undefined;
+        }
+
+        return [ { index: next } ];
+    },
+];
+
+//
+// Applies edits to a list of instructions, returning the new list.
+//
+function applyEdits(instructions: IInstruction[], edits: IEdit[]): IInstruction[] {
+    const replaced = instructions.slice() as (IInstruction | undefined)[];
+    for (const edit of edits) {
+        replaced[edit.index] = edit.instruction;
+    }
+
+    return replaced.filter(instruction => instruction !== undefined) as IInstruction[];
+}
+
+//
+// Removes redundant instructions from the instructions emitted for a program, without changing what the program does.
+// Rules are applied until none of them match.
+//
+export function optimizeInstructions(instructions: IInstruction[]): IInstruction[] {
+    let optimized = instructions;
+    let changed = true;
+    while (changed) {
+        changed = false;
+
+        let index = 0;
+        while (index < optimized.length) {
+            if (getOpcode(optimized[index].code) !== undefined) {
+                const edits = peepholeRules
+                    .map(rule => rule(optimized, index))
+                    .find(edits => edits !== undefined);
+                if (edits) {
+                    optimized = applyEdits(optimized, edits);
+                    changed = true;
+                    continue; // Check the instruction that is now at this index.
+                }
+            }
+
+            index += 1;
+        }
+    }
+
+    return optimized;
+}
@@ -2,11 +2,23 @@
 // Parser for the Aqua language.
 //
 
+import cloneDeep from "lodash.clonedeep";
 import { ASTNode } from "./ast";
 import { OnErrorFn } from "./error";
 import { IToken, ITokenizer, Tokenizer, TokenType, TOKEN_NAME } from "./tokenizer";
 import { IType } from "./type";
 
+//
+// Maps compound assignment operators to the opcode of the operation they apply.
+//
+const COMPOUND_ASSIGNMENT_OPERATORS: [TokenType, string][] = [
+    [TokenType.PLUS_ASSIGNMENT, "+"],
+    [TokenType.MINUS_ASSIGNMENT, "-"],
+    [TokenType.MULTIPLY_ASSIGNMENT, "*"],
+    [TokenType.DIVIDE_ASSIGNMENT, "/"],
+    [TokenType.MODULO_ASSIGNMENT, "%"],
+];
+
 export interface IParser {
 
     //
@@ -28,6 +40,11 @@ export class Parser implements IParser {
     //
     private onError: OnErrorFn;
 
+    //
+    // The most recently consumed token, this is where the node being parsed ends.
+    //
+    private previousToken?: IToken;
+
     constructor(code: string, onError: OnErrorFn) {
         this.tokenizer = new Tokenizer(code, onError);
         this.tokenizer.readNext(); // Read first token.
@@ -38,10 +55,11 @@ export class Parser implements IParser {
     // Parses an entire TEAL program.
     //
     program(): ASTNode {
-        return {
+        const start = this.tokenizer.getCurrent()!;
+        return this.located(start, {
             nodeType: "block-statement",
             children: this.declarations(),
-        };
+        });
     }
 
     //
@@ -68,8 +86,9 @@ export class Parser implements IParser {
     // Parses a top level declaration.
     //
     private declaration(): ASTNode {
-        if (this.match(TokenType.FUNCTION)) {
-            return this.function();
+        const functionToken = this.match(TokenType.FUNCTION);
+        if (functionToken) {
+            return this.withDocComment(this.function(), functionToken);
         }
 
         return this.statement();
@@ -79,10 +98,11 @@ export class Parser implements IParser {
     // Parses a function declaration.
     //
     private function(): ASTNode {
+        const start = this.previousToken!;
         const identifier = this.expect(TokenType.IDENTIFIER);
 
         this.expect(TokenType.OPEN_PAREN);
-        const params = this.parameters();  
+        const { params, paramTypes, paramNodes } = this.parameters();  
         
         this.expect(TokenType.COLON);
 
@@ -91,13 +111,25 @@ export class Parser implements IParser {
         this.expect(TokenType.OPEN_BRACKET);
         const body = this.blockStatement();
 
-        return {
+        return this.located(start, {
             nodeType: "function-declaration",
             value: identifier.value!,
             params: params,
+            paramTypes: paramTypes,
+            paramNodes: paramNodes,
             returnType: returnType,
             body: body,
-        };
+        });
+    }
+
+    //
+    // Attaches the doc comment that precedes the first token of a declaration to the declaration's node.
+    //
+    private withDocComment(node: ASTNode, firstToken: IToken): ASTNode {
+        if (firstToken.docComment !== undefined) {
+            node.docComment = firstToken.docComment;
+        }
+        return node;
     }
 
     //
@@ -133,11 +165,13 @@ export class Parser implements IParser {
     }
 
     //
-    // Parses a list of function parameters.
+    // Parses a list of function parameters and their optional types.
     //
-    private parameters(): string[] {
+    private parameters(): { params: string[], paramTypes: (IType | undefined)[], paramNodes: ASTNode[] } {
 
         const params: string[] = [];
+        const paramTypes: (IType | undefined)[] = [];
+        const paramNodes: ASTNode[] = [];
 
         while (!this.peek(TokenType.CLOSE_PAREN)) {
 
@@ -147,21 +181,38 @@ export class Parser implements IParser {
 
             const identifier = this.expect(TokenType.IDENTIFIER);
             params.push(identifier.value!);
+            paramNodes.push(this.located(identifier, {
+                nodeType: "identifier",
+                value: identifier.value!,
+            }));
+            paramTypes.push(this.typeAnnotation());
         }
 
         this.expect(TokenType.CLOSE_PAREN);        
 
-        return params;
+        return { params, paramTypes, paramNodes };
+    }
+
+    //
+    // Parses an optional type annotation, e.g. ": uint64".
+    // Returns undefined when there is no type annotation.
+    //
+    private typeAnnotation(): IType | undefined {
+        if (this.match(TokenType.COLON)) {
+            return this.type();
+        }
+
+        return undefined;
     }
 
     //
-    // Parses multiple statements.
+    // Parses multiple statements until one of the end tokens is found.
     //
-    private statements(endToken: TokenType): ASTNode[] {
+    private statements(...endTokens: TokenType[]): ASTNode[] {
         const stmts: ASTNode[] = [];
 
         while (!this.peek(TokenType.EOF) 
-            && !this.peek(endToken)) { 
+            && !endTokens.some(endToken => this.peek(endToken))) { 
             try {
                 stmts.push(this.statement());
             }
@@ -193,23 +244,29 @@ export class Parser implements IParser {
     // Parses a single statement.
     //
     private statement(): ASTNode {
-        if (this.match(TokenType.SEMICOLON)) {
-            return {
+        const semicolonToken = this.match(TokenType.SEMICOLON);
+        if (semicolonToken) {
+            return this.located(semicolonToken, {
                 nodeType: "block-statement", // Empty statement.
                 children: [],
-            };
+            });
         }
-        else if (this.match(TokenType.CONST)) {
+
+        const constToken = this.match(TokenType.CONST);
+        if (constToken) {
             const decl = this.variableDeclaration(true);
             this.expect(TokenType.SEMICOLON);
-            return decl;
+            return this.withDocComment(this.located(constToken, decl), constToken);
         }
-        else if (this.match(TokenType.LET)) {
+
+        const letToken = this.match(TokenType.LET);
+        if (letToken) {
             const decl = this.variableDeclaration(false);
             this.expect(TokenType.SEMICOLON);
-            return decl;
+            return this.withDocComment(this.located(letToken, decl), letToken);
         }
-        else if (this.match(TokenType.OPEN_BRACKET)) {
+
+        if (this.match(TokenType.OPEN_BRACKET)) {
             return this.blockStatement();
         }
         else if (this.match(TokenType.RETURN)) {
@@ -221,9 +278,31 @@ export class Parser implements IParser {
         else if (this.match(TokenType.WHILE)) {
             return this.whileStatement();
         }
+        else if (this.match(TokenType.DO)) {
+            return this.doWhileStatement();
+        }
         else if (this.match(TokenType.FOR)) {
             return this.forStatement();
         }
+        else if (this.match(TokenType.SWITCH)) {
+            return this.switchStatement();
+        }
+
+        const breakToken = this.match(TokenType.BREAK);
+        if (breakToken) {
+            this.expect(TokenType.SEMICOLON);
+            return this.located(breakToken, {
+                nodeType: "break-statement",
+            });
+        }
+
+        const continueToken = this.match(TokenType.CONTINUE);
+        if (continueToken) {
+            this.expect(TokenType.SEMICOLON);
+            return this.located(continueToken, {
+                nodeType: "continue-statement",
+            });
+        }
         
         return this.exprStatement();
     }
@@ -232,41 +311,42 @@ export class Parser implements IParser {
     // Parses the target of an assignment. 
     //
     private parseAssignee(): ASTNode {
-        if (this.match(TokenType.OPEN_PAREN)) {
+        const openToken = this.match(TokenType.OPEN_PAREN);
+        if (openToken) {
             // It's a tuple destructuring.
 
             const identifier = this.expect(TokenType.IDENTIFIER);
 
             const identifiers: ASTNode[] = [
-                {
+                this.located(identifier, {
                     nodeType: "identifier",
                     value: identifier.value,
-                },
+                }),
             ];
 
             while (this.match(TokenType.COMMA)) {
                 const nextIdentifier = this.expect(TokenType.IDENTIFIER);
 
-                identifiers.push({
+                identifiers.push(this.located(nextIdentifier, {
                     nodeType: "identifier",
                     value: nextIdentifier.value,
-                });
+                }));
             }            
 
             this.expect(TokenType.CLOSE_PAREN);
 
-            return {
+            return this.located(openToken, {
                 nodeType: "tuple",
                 children: identifiers,
-            };           
+            });           
         }
         else {
             const identifier = this.expect(TokenType.IDENTIFIER);
 
-            return {
+            return this.located(identifier, {
                 nodeType: "identifier",
                 value: identifier.value,
-            };
+            });
         }
     }
 
@@ -275,8 +355,12 @@ export class Parser implements IParser {
     //
     private variableDeclaration(isConstant: boolean): ASTNode {
 
+        const start = this.previousToken!; // The "let" or "const" keyword.
+
         let assignee = this.parseAssignee();
 
+        const declaredType = this.typeAnnotation();
+
         let initializer: ASTNode | undefined;
 
         if (this.match(TokenType.ASSIGNMENT)) {
@@ -292,25 +376,28 @@ export class Parser implements IParser {
                 message: msg,
                 line: token!.line,
                 column: token!.column,
+                endLine: token!.endLine,
+                endColumn: token!.endColumn,
             });
             throw new Error(msg);
         }
 
         const assignment = initializer !== undefined
-            ? {
+            ? this.located(assignee, {
                 nodeType: "assignment",
                 assignee: assignee,
                 checkConstantAssignment: false,
                 children: [ initializer ],
-            }
+            })
             : undefined;
 
-        return  {
+        return this.located(start, {
             nodeType: "declare-variable",
             assignee: assignee,
             symbolType: isConstant ? 1 : 0, // Constant. TOOD: This shouldn't be hardcoded - after new parser is finished.
+            declaredType: declaredType,
             initializer: assignment,
-        };
+        });
     }
 
     //
@@ -318,29 +405,31 @@ export class Parser implements IParser {
     //
     private blockStatement(): ASTNode {
 
+        const start = this.previousToken!; // The opening bracket.
         const stmts = this.statements(TokenType.CLOSE_BRACKET);
         this.expect(TokenType.CLOSE_BRACKET);
 
-        return {
+        return this.located(start, {
             nodeType: "block-statement",
             children: stmts,
-        };
+        });
     }
 
     //
     // Parses a return statement.
     //
     private returnStatement(): ASTNode {
+        const start = this.previousToken!;
         const expr = this.expression();
 
         this.expect(TokenType.SEMICOLON);
 
-        return {
+        return this.located(start, {
             nodeType: "return-statement",
             children: [
                 expr,
             ],
-        };
+        });
     }
 
     //
@@ -348,6 +437,8 @@ export class Parser implements IParser {
     //
     private ifStatement(): ASTNode {
 
+        const start = this.previousToken!;
+
         this.expect(TokenType.OPEN_PAREN);
 
         const conditionalExpr = this.expression();
@@ -362,20 +453,21 @@ export class Parser implements IParser {
             elseBlock = this.statement();
         }
 
-        return {
+        return this.located(start, {
             nodeType: "if-statement",
             children: [
                 conditionalExpr,
             ],
             ifBlock: ifBlock,
             elseBlock: elseBlock,
-        };
+        });
     }
 
     //
     // Parses a while statement.
     //
     private whileStatement(): ASTNode {
+        const start = this.previousToken!;
         this.expect(TokenType.OPEN_PAREN);
 
         const conditionalExpr = this.expression();
@@ -384,19 +476,44 @@ export class Parser implements IParser {
 
         const whileBody = this.statement();
 
-        return {
+        return this.located(start, {
             nodeType: "while-statement",
             children: [
                 conditionalExpr,
             ],
             body: whileBody,
-        };
+        });
+    }
+
+    //
+    // Parses a do while statement.
+    //
+    private doWhileStatement(): ASTNode {
+        const start = this.previousToken!;
+        const doWhileBody = this.statement();
+
+        this.expect(TokenType.WHILE);
+        this.expect(TokenType.OPEN_PAREN);
+
+        const conditionalExpr = this.expression();
+
+        this.expect(TokenType.CLOSE_PAREN);
+        this.expect(TokenType.SEMICOLON);
+
+        return this.located(start, {
+            nodeType: "do-while-statement",
+            children: [
+                conditionalExpr,
+            ],
+            body: doWhileBody,
+        });
     }
 
     //
     // Parses a for statement.
     //
     private forStatement(): ASTNode {
+        const start = this.previousToken!;
         this.expect(TokenType.OPEN_PAREN);
 
         let initializer: ASTNode | undefined;
@@ -408,12 +525,13 @@ export class Parser implements IParser {
                 initializer = this.variableDeclaration(false);
             }
             else {
-                initializer = {
+                const expr = this.expression();
+                initializer = this.located(expr, {
                     nodeType: "expr-statement",
                     children: [
-                        this.expression()
+                        expr,
                     ],
-                };
+                });
             }
         }
 
@@ -435,42 +553,81 @@ export class Parser implements IParser {
 
         const forBody = this.statement();
 
-        return {
+        return this.located(start, {
             nodeType: "block-statement",
             children: [
                 (initializer !== undefined //TODO: This code can do with some revision.
                     ? initializer
-                    : {
+                    : this.located(start, {
                         nodeType: "block-statement",
                         children: [],
-                    }
+                    })
                 ),
-                {
+                this.located(start, {
                     nodeType: "while-statement",
                     children: conditional !== undefined
                         ? [ conditional ]
                         : [],
-                    body: {
-                        nodeType: "block-statement",
-                        children: [
-                            forBody,
-                            (increment !== undefined //TODO: This code can do with some revision.
-                                ? {
-                                    nodeType: "expr-statement",
-                                    children: [
-                                        increment,
-                                    ],
-                                }
-                                : {
-                                    nodeType: "block-statement",
-                                    children: [],
-                                }
-                            ),
-                        ],
-                    },
-                },
+                    body: forBody,
+                    increment: increment !== undefined
+                        ? this.located(increment, {
+                            nodeType: "expr-statement",
+                            children: [
+                                increment,
+                            ],
+                        })
+                        : undefined,
+                }),
+            ],
+        });
+    }
+
+    //
+    // Parses a switch statement.
+    //
+    private switchStatement(): ASTNode {
+        const start = this.previousToken!;
+        this.expect(TokenType.OPEN_PAREN);
+
+        const scrutinee = this.expression();
+
+        this.expect(TokenType.CLOSE_PAREN);
+        this.expect(TokenType.OPEN_BRACKET);
+
+        const cases: ASTNode[] = [];
+
+        while (!this.match(TokenType.CLOSE_BRACKET)) {
+            const caseStart = this.tokenizer.getCurrent()!;
+            let caseValues: ASTNode[];
+            if (this.match(TokenType.CASE)) {
+                caseValues = [ this.expression() ];
+            }
+            else {
+                this.expect(TokenType.DEFAULT);
+                caseValues = []; // The default case has no value.
+            }
+
+            this.expect(TokenType.COLON);
+
+            const stmts = this.statements(TokenType.CASE, TokenType.DEFAULT, TokenType.CLOSE_BRACKET);
+
+            cases.push(this.located(caseStart, {
+                nodeType: "switch-case",
+                children: caseValues,
+                body: this.located(caseStart, {
+                    nodeType: "block-statement",
+                    children: stmts,
+                }),
+            }));
+        }
+
+        return this.located(start, {
+            nodeType: "switch-statement",
+            children: [
+                scrutinee,
             ],
-        };
+            cases: cases,
+        });
     }
 
     //
@@ -480,12 +637,12 @@ export class Parser implements IParser {
         const expr = this.expression();
         this.expect(TokenType.SEMICOLON);
 
-        return {
+        return this.located(expr, {
             nodeType: "expr-statement",
             children: [
                 expr,
             ],
-        };
+        });
     }
 
     //
@@ -499,54 +656,116 @@ export class Parser implements IParser {
     // Parses an assignment expression.
     //
     private assignment(): ASTNode {
-        const assignee = this.logical();
+        const assignee = this.conditional();
 
         if (this.match(TokenType.ASSIGNMENT)) {
             const initializer = this.expression();
-            return {
+            return this.located(assignee, {
                 nodeType: "assignment",
                 assignee: assignee,
                 checkConstantAssignment: true,
                 children: [
                     initializer,
                 ],
-            };
+            });
         }
-        else {
-            return assignee;
+
+        for (const [tokenType, opcode] of COMPOUND_ASSIGNMENT_OPERATORS) {
+            if (this.match(tokenType)) {
+                return this.compoundAssignment(assignee, assignee, opcode, this.expression());
+            }
+        }
+
+        return assignee;
+    }
+
+    //
+    // Makes an assignment that applies an operation to the current value of the assignee.
+    // E.g. x += 2 is parsed as x = x + 2.
+    // The nodes are located from the start of the expression to the most recently consumed token.
+    //
+    private compoundAssignment(start: IToken | ASTNode, assignee: ASTNode, opcode: string, value: ASTNode): ASTNode {
+        return this.located(start, {
+            nodeType: "assignment",
+            assignee: assignee,
+            checkConstantAssignment: true,
+            children: [
+                this.located(start, {
+                    nodeType: "operation",
+                    opcode: opcode,
+                    children: [
+                        cloneDeep(assignee), // The assignee is read as well as written.
+                        value,
+                    ],
+                }),
+            ],
+        });
+    }
+
+    //
+    // Makes the number 1 for an increment or decrement expression.
+    //
+    private one(start: IToken | ASTNode): ASTNode {
+        return this.located(start, { 
+            nodeType: "number", 
+            value: BigInt(1),
+        });
+    }
+
+    //
+    // Parses a conditional expression.
+    // E.g. cond ? a : b
+    //
+    private conditional(): ASTNode {
+        const condition = this.logical();
+
+        if (this.match(TokenType.QUESTION)) {
+            const consequent = this.expression();
+            this.expect(TokenType.COLON);
+            const alternate = this.conditional();
+            return this.located(condition, {
+                nodeType: "conditional-expression",
+                children: [
+                    condition,
+                    consequent,
+                    alternate,
+                ],
+            });
         }
+
+        return condition;
     }
 
     //
     // Parses a logical expression.
     //
     private logical(): ASTNode {
-        let working = this.equality();
+        let working = this.bitwiseOr();
 
         while (true) {
             if (this.match(TokenType.AND)) {
-                const right = this.equality();
-                working = {
+                const right = this.bitwiseOr();
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "&&",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.OR)) {
-                const right = this.equality();
-                working = {
+                const right = this.bitwiseOr();
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "||",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
@@ -556,6 +775,69 @@ export class Parser implements IParser {
         return working;
     }
 
+    //
+    // Parses a bitwise or expression.
+    //
+    private bitwiseOr(): ASTNode {
+        let working = this.bitwiseXor();
+
+        while (this.match(TokenType.BITWISE_OR)) {
+            const right = this.bitwiseXor();
+            working = this.located(working, {
+                nodeType: "operation",
+                opcode: "|",
+                children: [
+                    working,
+                    right,
+                ],
+            });
+        }
+
+        return working;
+    }
+
+    //
+    // Parses a bitwise exclusive or expression.
+    //
+    private bitwiseXor(): ASTNode {
+        let working = this.bitwiseAnd();
+
+        while (this.match(TokenType.BITWISE_XOR)) {
+            const right = this.bitwiseAnd();
+            working = this.located(working, {
+                nodeType: "operation",
+                opcode: "^",
+                children: [
+                    working,
+                    right,
+                ],
+            });
+        }
+
+        return working;
+    }
+
+    //
+    // Parses a bitwise and expression.
+    //
+    private bitwiseAnd(): ASTNode {
+        let working = this.equality();
+
+        while (this.match(TokenType.BITWISE_AND)) {
+            const right = this.equality();
+            working = this.located(working, {
+                nodeType: "operation",
+                opcode: "&",
+                children: [
+                    working,
+                    right,
+                ],
+            });
+        }
+
+        return working;
+    }
+
     //
     // Parses an equality expression.
     //
@@ -565,27 +847,27 @@ export class Parser implements IParser {
         while (true) {
             if (this.match(TokenType.EQ)) {
                 const right = this.comparison();
-                working = {
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "==",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.NE)) {
                 const right = this.comparison();
-                working = {
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "!=",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
@@ -599,58 +881,97 @@ export class Parser implements IParser {
     // Parses a comparison expression.
     //
     private comparison(): ASTNode {
-        let working = this.term();
+        let working = this.shift();
 
         while (true) {
             if (this.match(TokenType.LT)) {
-                const right = this.term();
-                working = {
+                const right = this.shift();
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "<",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.LTE)) {
-                const right = this.term();
-                working = {
+                const right = this.shift();
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "<=",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.GT)) {
-                const right = this.term();
-                working = {
+                const right = this.shift();
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: ">",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.GTE)) {
-                const right = this.term();
-                working = {
+                const right = this.shift();
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: ">=",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
+                continue;
+            }
+
+            break;
+        }
+
+        return working;
+    }
+
+    //
+    // Parses a bit shift expression.
+    //
+    private shift(): ASTNode {
+        let working = this.term();
+
+        while (true) {
+            if (this.match(TokenType.SHL)) {
+                const right = this.term();
+                working = this.located(working, {
+                    nodeType: "operation",
+                    opcode: "shl",
+                    children: [
+                        working,
+                        right,
+                    ],
+                });
+                continue;
+            }
+
+            if (this.match(TokenType.SHR)) {
+                const right = this.term();
+                working = this.located(working, {
+                    nodeType: "operation",
+                    opcode: "shr",
+                    children: [
+                        working,
+                        right,
+                    ],
+                });
                 continue;
             }
 
@@ -669,27 +990,27 @@ export class Parser implements IParser {
         while (true) {
             if (this.match(TokenType.PLUS)) {
                 const right = this.factor();
-                working = {
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "+",
                     children: [
                         working, 
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.MINUS)) {
                 const right = this.factor();
-                working = {
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "-",
                     children: [
                         working, 
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
@@ -700,7 +1021,7 @@ export class Parser implements IParser {
     }
 
     //
-    // Parses a multiplication or division expression.
+    // Parses a multiplication, division or modulo expression.
     //
     private factor(): ASTNode {
         let working = this.unary();
@@ -708,27 +1029,40 @@ export class Parser implements IParser {
         while (true) {
             if (this.match(TokenType.MULTIPLY)) {
                 const right = this.unary();
-                working = {
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "*",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
                 continue;
             }
 
             if (this.match(TokenType.DIVIDE)) {
                 const right = this.unary();
-                working = {
+                working = this.located(working, {
                     nodeType: "operation",
                     opcode: "/",
                     children: [
                         working,
                         right,
                     ],
-                };
+                });
+                continue;
+            }
+
+            if (this.match(TokenType.MODULO)) {
+                const right = this.unary();
+                working = this.located(working, {
+                    nodeType: "operation",
+                    opcode: "%",
+                    children: [
+                        working,
+                        right,
+                    ],
+                });
                 continue;
             }
 
@@ -742,19 +1076,86 @@ export class Parser implements IParser {
     // Parses a unary expression.
     //
     private unary(): ASTNode {
+        const start = this.tokenizer.getCurrent()!;
+
         if (this.match(TokenType.NOT)) {
             const expression = this.unary();
-            return {
+            return this.located(start, {
                 nodeType: "operation",
                 opcode: "!",
+                numItemsAdded: 1,
+                numItemsRemoved: 1,
                 children: [
                     expression,
                 ],
-            };
+            });
+        }
+        else if (this.match(TokenType.BITWISE_NOT)) {
+            const expression = this.unary();
+            return this.located(start, {
+                nodeType: "operation",
+                opcode: "~",
+                numItemsAdded: 1,
+                numItemsRemoved: 1,
+                children: [
+                    expression,
+                ],
+            });
+        }
+        else if (this.match(TokenType.INCREMENT)) {
+            //
+            // ++x is parsed as x += 1.
+            //
+            const operand = this.unary();
+            return this.compoundAssignment(start, operand, "+", this.one(start));
+        }
+        else if (this.match(TokenType.DECREMENT)) {
+            //
+            // --x is parsed as x -= 1.
+            //
+            const operand = this.unary();
+            return this.compoundAssignment(start, operand, "-", this.one(start));
         }
         else {
-            return this.primary();
+            return this.postfix();
+        }
+    }
+
+    //
+    // Parses a postfix increment or decrement expression.
+    //
+    private postfix(): ASTNode {
+        const operand = this.primary();
+
+        if (this.match(TokenType.INCREMENT)) {
+            //
+            // x++ is parsed as (x += 1) - 1 so that it evaluates to the previous value.
+            //
+            return this.located(operand, {
+                nodeType: "operation",
+                opcode: "-",
+                children: [
+                    this.compoundAssignment(operand, operand, "+", this.one(operand)),
+                    this.one(operand),
+                ],
+            });
+        }
+
+        if (this.match(TokenType.DECREMENT)) {
+            //
+            // x-- is parsed as (x -= 1) + 1 so that it evaluates to the previous value.
+            //
+            return this.located(operand, {
+                nodeType: "operation",
+                opcode: "+",
+                children: [
+                    this.compoundAssignment(operand, operand, "-", this.one(operand)),
+                    this.one(operand),
+                ],
+            });
         }
+
+        return operand;
     }
 
     //
@@ -762,7 +1163,8 @@ export class Parser implements IParser {
     //
     private primary(): ASTNode {
 
-        if (this.match(TokenType.OPEN_PAREN)) {
+        const openToken = this.match(TokenType.OPEN_PAREN);
+        if (openToken) {
 
             let expr = this.expression();
 
@@ -779,10 +1181,12 @@ export class Parser implements IParser {
 
                 } while (this.match(TokenType.COMMA))
 
-                expr = {
+                this.expect(TokenType.CLOSE_PAREN);
+
+                return this.located(openToken, {
                     nodeType: "tuple",
                     children: tupleValues,
-                };
+                });
             }
 
             this.expect(TokenType.CLOSE_PAREN);
@@ -791,18 +1195,19 @@ export class Parser implements IParser {
 
         const numberToken = this.match(TokenType.NUMBER);
         if (numberToken) {
-            return {
+            return this.located(numberToken, {
                 nodeType: "number",                
                 value: numberToken.value!,
-            };
+            });
         }
 
         const stringLiteral = this.match(TokenType.STRING);
         if (stringLiteral) {
-            return {
+            return this.located(stringLiteral, {
                 nodeType: "string-literal",
                 value: stringLiteral.value!,
-            };
+                encoding: stringLiteral.encoding,
+            });
         }
 
         if (this.match(TokenType.TXN)) {
@@ -837,13 +1242,13 @@ export class Parser implements IParser {
         if (identifierToken) {
 
             if (this.match(TokenType.OPEN_PAREN)) {
-                return this.functionCall(identifierToken.value!);
+                return this.functionCall(identifierToken);
             }
             else {
-                return {
+                return this.located(identifierToken, {
                     nodeType: "identifier",
                     value: identifierToken.value!,
-                };
+                });
             }
         }
 
@@ -853,6 +1258,8 @@ export class Parser implements IParser {
             message: msg,
             line: token!.line,
             column: token!.column,
+            endLine: token!.endLine,
+            endColumn: token!.endColumn,
         });
         throw new Error(msg);
     }
@@ -861,6 +1268,7 @@ export class Parser implements IParser {
     // Parses a txn expression.
     //
     private txn(): ASTNode {
+        const start = this.previousToken!;
         this.expect(TokenType.DOT);
 
         const nextIdentifier = this.expect(TokenType.IDENTIFIER);
@@ -870,7 +1278,7 @@ export class Parser implements IParser {
 
             this.expect(TokenType.CLOSE_BRACE);
 
-            return {
+            return this.located(start, {
                 nodeType: "operation",
                 opcode: "txna",
                 numItemsAdded: 1,
@@ -879,10 +1287,10 @@ export class Parser implements IParser {
                     nextIdentifier.value!,
                     numberToken.value!,
                 ],
-            };
+            });
         }
 
-        return {
+        return this.located(start, {
             nodeType: "operation",
             opcode: "txn",
             numItemsAdded: 1,
@@ -890,7 +1298,7 @@ export class Parser implements IParser {
             args: [
                 nextIdentifier.value!,
             ],
-        };
+        });
 
     }
 
@@ -899,6 +1307,7 @@ export class Parser implements IParser {
     //
     private gtxn(): ASTNode {
 
+        const start = this.previousToken!;
         this.expect(TokenType.OPEN_BRACE);
 
         const gtxnIndexToken = this.expect(TokenType.NUMBER);
@@ -914,7 +1323,7 @@ export class Parser implements IParser {
 
             this.expect(TokenType.CLOSE_BRACE);
 
-            return {
+            return this.located(start, {
                 nodeType: "operation",
                 opcode: "gtxna",
                 numItemsAdded: 1,
@@ -924,10 +1333,10 @@ export class Parser implements IParser {
                     fieldIdentifier.value!,
                     arrayIndexToken.value!,
                 ],
-            };
+            });
         }
 
-        return {
+        return this.located(start, {
             nodeType: "operation",
             opcode: "gtxn",
             numItemsAdded: 1,
@@ -936,20 +1345,21 @@ export class Parser implements IParser {
                 gtxnIndexToken.value!,
                 fieldIdentifier.value!,
             ],
-        };
+        });
     }
 
     //
     // Parses an arg expression.
     //
     private arg(): ASTNode {
+        const start = this.previousToken!;
         this.expect(TokenType.OPEN_BRACE);
 
         const argIndexToken = this.expect(TokenType.NUMBER);
 
         this.expect(TokenType.CLOSE_BRACE);
 
-        return {
+        return this.located(start, {
             nodeType: "operation",
             opcode: "arg",
             numItemsAdded: 1,
@@ -957,15 +1367,16 @@ export class Parser implements IParser {
             args: [
                 argIndexToken.value!,
             ],
-        };
+        });
     }
 
     //
     // Parses an addr expressions.
     //
     private addr(): ASTNode {
+        const start = this.previousToken!;
         const stringLiteral = this.expect(TokenType.STRING);
-        return {
+        return this.located(start, {
             nodeType:"operation",
             opcode: "addr",
             numItemsAdded: 1,
@@ -973,18 +1384,19 @@ export class Parser implements IParser {
             args: [
                 stringLiteral.value!,
             ],
-        };
+        });
     }
 
     //
     // Parses a dot expression.
     //
     private dot(opcode: string): ASTNode {
+        const start = this.previousToken!;
         this.expect(TokenType.DOT);
 
         const fieldName = this.expect(TokenType.IDENTIFIER);
 
-        return {
+        return this.located(start, {
             nodeType: "operation",
             opcode: opcode,
             numItemsAdded: 1, 
@@ -992,23 +1404,23 @@ export class Parser implements IParser {
             args: [
                 fieldName.value!,
             ],
-        };
+        });
     }
 
     //
     // Parses a function call.
     //
-    private functionCall(functionName: string): ASTNode {
+    private functionCall(functionNameToken: IToken): ASTNode {
 
         const args = this.arguments();
 
         this.expect(TokenType.CLOSE_PAREN);
 
-        return {
+        return this.located(functionNameToken, {
             nodeType: "function-call",
-            value: functionName,
+            value: functionNameToken.value!,
             functionArgs: args,
-        };
+        });
     }
 
     //
@@ -1045,6 +1457,7 @@ export class Parser implements IParser {
     private match(type: TokenType): IToken | undefined {
         const curToken = this.tokenizer.getCurrent();
         if (curToken && curToken.type === type) {
+            this.previousToken = curToken;
             this.tokenizer.readNext();
             return curToken;
         }
@@ -1064,12 +1477,29 @@ export class Parser implements IParser {
                 message: msg,
                 line: token.line,
                 column: token.column,
+                endLine: token.endLine,
+                endColumn: token.endColumn,
             });
             throw new Error(msg);
         }
         return token;
     }
 
+    //
+    // Records the location of a node in the source code.
+    // The node starts where a token or another node starts and ends at the end of the most recently consumed token.
+    //
+    private located(start: IToken | ASTNode, node: ASTNode): ASTNode {
+        const end = this.previousToken || start;
+        node.line = start.line;
+        node.column = start.column;
+        node.offset = start.offset;
+        node.endLine = end.endLine;
+        node.endColumn = end.endColumn;
+        node.endOffset = end.endOffset;
+        return node;
+    }
+
     //
     // Returns true when we have reached the end-of-file token in the source code.
     //
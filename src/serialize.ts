@@ -0,0 +1,173 @@
+import { ASTNode } from "./ast";
+import { ISymbol, SymbolType } from "./symbol";
+import { IType } from "./type";
+
+//
+// A node of the AST in a form that can be converted to JSON.
+// References to symbols are replaced by symbol ids, scopes are removed and numbers are decimal strings.
+//
+export interface ISerializedNode {
+    //
+    // The type of the node.
+    //
+    nodeType: string;
+
+    //
+    // The id of the symbol for the node.
+    //
+    symbol?: number;
+
+    //
+    // The ids of the symbols for the node.
+    //
+    symbols?: number[];
+
+    //
+    // Other fields copied from the AST node.
+    //
+    [field: string]: any;
+}
+
+//
+// A symbol in a form that can be converted to JSON.
+//
+export interface ISerializedSymbol {
+    //
+    // Identifies the symbol within the result, referenced from nodes and other symbols.
+    //
+    id: number;
+
+    //
+    // The name of the symbol.
+    //
+    name: string;
+
+    //
+    // The kind of symbol.
+    //
+    kind: "variable" | "constant" | "function";
+
+    //
+    // Records if the symbol is a global.
+    //
+    isGlobal: boolean;
+
+    //
+    // Position of the symbol in scratch memory (if not a function).
+    //
+    position?: number;
+
+    //
+    // The type of the value of variable and constant symbols, when known.
+    //
+    valueType?: IType;
+
+    //
+    // The return type for function symbols.
+    //
+    returnType?: IType;
+
+    //
+    // The ids of the symbols for the parameters of function symbols, in order.
+    //
+    params?: number[];
+
+    //
+    // Set when the value of a variable is read or a function is called.
+    //
+    isUsed: boolean;
+}
+
+//
+// Names of the kinds of symbol.
+//
+const symbolKinds = {
+    [SymbolType.Variable]: "variable",
+    [SymbolType.Constant]: "constant",
+    [SymbolType.Function]: "function",
+} as const;
+
+//
+// Converts an AST and the symbols it references to a form that can be converted to JSON.
+//
+export function serializeProgram(ast: ASTNode): { ast: ISerializedNode, symbols: ISerializedSymbol[] } {
+
+    const symbolIds = new Map<ISymbol, number>();
+    const symbols: ISerializedSymbol[] = [];
+
+    //
+    // Gets the id of a symbol, adding the symbol to the list the first time it is seen.
+    //
+    function symbolId(symbol: ISymbol): number {
+        let id = symbolIds.get(symbol);
+        if (id === undefined) {
+            id = symbols.length;
+            symbolIds.set(symbol, id);
+
+            const serializedSymbol: ISerializedSymbol = {
+                id,
+                name: symbol.name,
+                kind: symbolKinds[symbol.type],
+                isGlobal: symbol.isGlobal,
+                isUsed: !!symbol.isUsed,
+            };
+            symbols.push(serializedSymbol);
+
+            if (symbol.position !== undefined) {
+                serializedSymbol.position = symbol.position;
+            }
+            if (symbol.valueType) {
+                serializedSymbol.valueType = symbol.valueType;
+            }
+            if (symbol.returnType) {
+                serializedSymbol.returnType = symbol.returnType;
+            }
+            if (symbol.params) {
+                serializedSymbol.params = symbol.params.map(symbolId);
+            }
+        }
+
+        return id;
+    }
+
+    //
+    // Copies a value from the AST, replacing the fields that can't be converted to JSON.
+    //
+    function serializeValue(value: any): any {
+        if (typeof value === "bigint") {
+            return value.toString();
+        }
+
+        if (Array.isArray(value)) {
+            return value.map(serializeValue);
+        }
+
+        if (value === null || typeof value !== "object") {
+            return value;
+        }
+
+        const serialized: any = {};
+        for (const [field, fieldValue] of Object.entries(value)) {
+            if (fieldValue === undefined || field === "scope") {
+                continue;
+            }
+
+            if (field === "symbol") {
+                serialized.symbol = symbolId(fieldValue as ISymbol);
+            }
+            else if (field === "symbols") {
+                serialized.symbols = (fieldValue as ISymbol[]).map(symbolId);
+            }
+            else {
+                serialized[field] = serializeValue(fieldValue);
+            }
+        }
+
+        return serialized;
+    }
+
+    return {
+        ast: serializeValue(ast),
+        symbols,
+    };
+}
@@ -1,5 +1,7 @@
 import { ASTNode } from "../ast";
-import { IError, OnErrorFn } from "../error";
+import { MAX_SCRATCH } from "../config";
+import { DiagnosticCode, IError, locateError, OnErrorFn } from "../error";
+import { ISymbol, SymbolType } from "../symbol";
 import { ISymbolTable } from "../symbol-table";
 
 //
@@ -19,12 +21,18 @@ interface INodeVisitorMap {
 //
 export const visitors: INodeVisitorMap = {
     "assignment": require("./visitors/assignment").default,
+    "block-statement": require("./visitors/block-statement").default,
     "declare-variable": require("./visitors/declare-variable").default,
+    "expr-statement": require("./visitors/expr-statement").default,
     "function-declaration": require("./visitors/function-declaration").default,
     "function-call": require("./visitors/function-call").default,
     "identifier": require("./visitors/identifier").default,
     "if-statement": require("./visitors/if-statement").default,
     "while-statement": require("./visitors/while-statement").default,
+    "do-while-statement": require("./visitors/do-while-statement").default,
+    "break-statement": require("./visitors/break-statement").default,
+    "continue-statement": require("./visitors/continue-statement").default,
+    "switch-statement": require("./visitors/switch-statement").default,
 };
 
 //
@@ -32,6 +40,16 @@ export const visitors: INodeVisitorMap = {
 //
 export interface ISymbolResolution {
 
+    //
+    // The number of loops enclosing the node currently being visited.
+    //
+    loopDepth: number;
+
+    //
+    // The number of switch statements enclosing the node currently being visited.
+    //
+    switchDepth: number;
+
     //
     // Resolve symbols, annotates the AST and binds variables (etc) to their symbol table entries.
     // Computes space required by functions for local variables.
@@ -47,6 +65,18 @@ export interface ISymbolResolution {
     // Visits each child to resolve symbols.
     //
     visitChildren(node: ASTNode, symbolTable: ISymbolTable): void;
+
+    //
+    // Records the declaration of a variable, constant, parameter or function so that it can be checked once all symbols are resolved,
+    // e.g. to report a warning if it is never used.
+    // The kind describes the symbol in warnings, by default it is described by its type.
+    //
+    addDeclaration(symbol: ISymbol, node: ASTNode, kind?: string): void;
+
+    //
+    // Reports a warning at the location of a node and continues resolving symbols.
+    //
+    warn(node: ASTNode, code: DiagnosticCode, message: string): void;
 }
 
 //
@@ -54,11 +84,26 @@ export interface ISymbolResolution {
 //
 export class SymbolResolution implements ISymbolResolution {
 
+    //
+    // The number of loops enclosing the node currently being visited.
+    //
+    loopDepth: number = 0;
+
+    //
+    // The number of switch statements enclosing the node currently being visited.
+    //
+    switchDepth: number = 0;
+
     //
     // A simple interface that allows the tokenizer to report an error and continue scanning.
     //
     private onError: OnErrorFn;
 
+    //
+    // Symbols declared in the program and the nodes that declare them.
+    //
+    private declarations: { symbol: ISymbol, node: ASTNode, kind?: string }[] = [];
+
     constructor(onError: OnErrorFn) {
         this.onError = onError;
     }
@@ -72,7 +117,28 @@ export class SymbolResolution implements ISymbolResolution {
         //
         // Resolve symbols for the AST and compute storage space.
         //
+        this.declarations = [];
         this.visitNode(ast, globalSymbolTable);
+
+        for (const { symbol, node } of this.declarations) {
+            if (symbol.isGlobal && symbol.position !== undefined && symbol.position > MAX_SCRATCH) {
+                this.onError(locateError(new Error(`There is no scratch slot for ${symbol.name}, global variables can only use slots up to ${MAX_SCRATCH}.`), node));
+            }
+        }
+
+        for (const { symbol, node, kind } of this.declarations) {
+            if (symbol.isUsed) {
+                continue;
+            }
+
+            if (symbol.type === SymbolType.Function) {
+                this.warn(node, DiagnosticCode.UnusedFunction, `Function ${symbol.name} is declared but never called.`);
+            }
+            else {
+                const description = kind || (symbol.type === SymbolType.Constant ? "Constant" : "Variable");
+                this.warn(node, DiagnosticCode.UnusedVariable, `${description} ${symbol.name} is declared but never used.`);
+            }
+        }
     }
 
     //
@@ -93,7 +159,7 @@ export class SymbolResolution implements ISymbolResolution {
             visitor(node, this, symbolTable);
         }
         catch (err: any) {
-            this.onError(err);
+            this.onError(locateError(err, node));
         }
     }
 
@@ -107,5 +173,24 @@ export class SymbolResolution implements ISymbolResolution {
             }
         }
     }
-}
 
+    //
+    // Records the declaration of a variable, constant, parameter or function so that it can be checked once all symbols are resolved,
+    // e.g. to report a warning if it is never used.
+    // The kind describes the symbol in warnings, by default it is described by its type.
+    //
+    addDeclaration(symbol: ISymbol, node: ASTNode, kind?: string): void {
+        this.declarations.push({ symbol, node, kind });
+    }
+
+    //
+    // Reports a warning at the location of a node and continues resolving symbols.
+    //
+    warn(node: ASTNode, code: DiagnosticCode, message: string): void {
+        this.onError({
+            ...locateError({ message }, node),
+            severity: "warning",
+            code: code,
+        });
+    }
+}
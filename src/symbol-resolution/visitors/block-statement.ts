@@ -0,0 +1,59 @@
+import { ISymbolResolution } from "..";
+import { ASTNode } from "../../ast";
+import { DiagnosticCode } from "../../error";
+import { ISymbolTable } from "../../symbol-table";
+import { declareFunction } from "./function-declaration";
+
+//
+// Returns true if execution never continues after a statement.
+//
+function isTerminal(statement: ASTNode): boolean {
+    if (statement.nodeType === "return-statement") {
+        return true;
+    }
+
+    if (statement.nodeType === "expr-statement") {
+        const expr = statement.children![0];
+        return expr.nodeType === "function-call" && expr.value === "exit";
+    }
+
+    return false;
+}
+
+export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
+
+    if (!node.scope) {
+        //
+        // Variables declared in the block are only in scope until the end of the block.
+        // The scope is already set when the block is the body of a function, which shares the scope of its parameters.
+        //
+        node.scope = symbolTable.createBlockScope();
+    }
+
+    symbolTable = node.scope;
+
+    //
+    // Hoists function declarations so that functions can be called before they are declared.
+    //
+    for (const child of node.children || []) {
+        if (child.nodeType === "function-declaration" 
+            && !symbolTable.isDefinedLocally(child.value!)) { // Duplicates are reported when the declaration is visited.
+            declareFunction(child, symbolTable);
+        }
+    }
+
+    symbolResolution.visitChildren(node, symbolTable);
+
+    //
+    // Function declarations aren't executed where they are declared, so they aren't unreachable.
+    //
+    const children = node.children || [];
+    const terminalIndex = children.findIndex(isTerminal);
+    if (terminalIndex >= 0) {
+        const unreachable = children.slice(terminalIndex + 1)
+            .find(child => child.nodeType !== "function-declaration");
+        if (unreachable) {
+            symbolResolution.warn(unreachable, DiagnosticCode.UnreachableCode, `Unreachable code.`);
+        }
+    }
+}
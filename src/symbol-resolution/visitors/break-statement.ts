@@ -0,0 +1,10 @@
+import { ISymbolResolution } from "..";
+import { ASTNode } from "../../ast";
+import { ISymbolTable } from "../../symbol-table";
+
+export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
+
+    if (symbolResolution.loopDepth === 0 && symbolResolution.switchDepth === 0) {
+        throw new Error(`"break" can only be used inside a loop or switch.`);
+    }
+}
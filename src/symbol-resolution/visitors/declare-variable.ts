@@ -1,14 +1,47 @@
 import { ISymbolResolution } from "..";
 import { ASTNode } from "../../ast";
+import { isConstantExpression } from "../../constant-folding";
+import { DiagnosticCode } from "../../error";
+import { SymbolType } from "../../symbol";
 import { ISymbolTable } from "../../symbol-table";
 
+//
+// Warns when a variable hides a symbol with the same name from an enclosing scope.
+//
+function checkShadowing(identifier: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable): void {
+    if (symbolTable.get(identifier.value!) !== undefined) {
+        symbolResolution.warn(identifier, DiagnosticCode.ShadowedName, `${identifier.value} shadows a symbol declared in an enclosing scope.`);
+    }
+}
+
 export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
 
     symbolResolution.visitChildren(node, symbolTable);
 
+    //
+    // The value is resolved before the variables are declared, so it can't refer to them.
+    //
+    const initializer = node.initializer;
+    if (initializer) {
+        symbolResolution.visitChildren(initializer, symbolTable);
+    }
+
     const assignee = node.assignee!;
+    const declaredType = node.declaredType;
+    if (declaredType && declaredType.type === "void") {
+        throw new Error(`A variable can't be void.`);
+    }
+
     if (assignee.nodeType == "tuple") {
 
+        if (declaredType && (declaredType.type !== "tuple" || declaredType.children!.length !== assignee.children!.length)) {
+            throw new Error(`Expected the type of the tuple to have ${assignee.children!.length} values.`);
+        }
+
+        if (declaredType && declaredType.children!.some(elementType => elementType.type === "tuple")) {
+            throw new Error(`A variable can only hold one value, tuples can't be nested.`);
+        }
+
         node.symbols = [];
 
         for (const child of assignee.children!)  {
@@ -21,10 +54,17 @@ export default function (node: ASTNode, symbolResolution: ISymbolResolution, sym
                     throw new Error(`${child.value!} is already declared!`);
                 }
 
+                checkShadowing(child, symbolResolution, symbolTable);
+
                 //
                 // Allocates a position for the variable in scratch.
                 //
-                node.symbols.push(symbolTable.define(child.value!, node.symbolType!));
+                const symbol = symbolTable.define(child.value!, node.symbolType!);
+                if (declaredType) {
+                    symbol.valueType = declaredType.children![node.symbols.length];
+                }
+                node.symbols.push(symbol);
+                symbolResolution.addDeclaration(symbol, child);
             }
         }
     }
@@ -32,17 +72,45 @@ export default function (node: ASTNode, symbolResolution: ISymbolResolution, sym
         throw new Error(`Expected assignee to be an lvalue.`);
     }
     else {
+        if (declaredType && declaredType.type === "tuple") {
+            throw new Error(`${assignee.value} can only hold one value, declare a variable for each value of the tuple, e.g. let (a, b) = ...`);
+        }
+
         if (symbolTable.isDefinedLocally(assignee.value!)) {
             throw new Error(`${assignee.value!} is already declared!`);
         }
 
-        //
-        // Allocates a position for the variable in scratch.
-        //
-        node.symbol = symbolTable.define(assignee.value!, node.symbolType!);
+        checkShadowing(assignee, symbolResolution, symbolTable);
+
+        const value = initializer && initializer.children![0];
+        if (node.symbolType === SymbolType.Constant && value && isConstantExpression(value)) {
+            //
+            // Uses of the constant are replaced by its value, so it doesn't need a position in scratch.
+            //
+            node.symbol = symbolTable.defineConstant(assignee.value!, value);
+        }
+        else {
+            //
+            // Allocates a position for the variable in scratch.
+            //
+            node.symbol = symbolTable.define(assignee.value!, node.symbolType!);
+        }
+
+        if (declaredType) {
+            node.symbol.valueType = declaredType;
+        }
+        symbolResolution.addDeclaration(node.symbol, assignee);
     }      
 
-    if (node.initializer) {
-        symbolResolution.visitNode(node.initializer, symbolTable);
+    if (initializer) {
+        //
+        // The initializer assigns the value to the variables that are declared.
+        //
+        if (node.symbol) {
+            initializer.symbol = node.symbol;
+        }
+        else {
+            initializer.symbols = node.symbols;
+        }
     }
 }
\ No newline at end of file
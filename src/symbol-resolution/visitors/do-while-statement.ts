@@ -0,0 +1,14 @@
+import { ISymbolResolution } from "..";
+import { ASTNode } from "../../ast";
+import { ISymbolTable } from "../../symbol-table";
+
+export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
+
+    symbolResolution.loopDepth += 1;
+
+    symbolResolution.visitNode(node.body!, symbolTable);
+
+    symbolResolution.loopDepth -= 1;
+
+    symbolResolution.visitChildren(node, symbolTable);
+}
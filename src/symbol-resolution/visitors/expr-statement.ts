@@ -0,0 +1,43 @@
+import { ISymbolResolution } from "..";
+import { ASTNode } from "../../ast";
+import { ISymbolTable } from "../../symbol-table";
+
+//
+// Gets the assignment made by an expression that only updates a variable from its own value,
+// e.g. x += 1, x++ or x = x * 2. Returns undefined for other expressions.
+//
+function getSelfUpdate(expr: ASTNode): ASTNode | undefined {
+    if (expr.nodeType === "operation" && expr.children && expr.children.length === 2
+        && expr.children[0].nodeType === "assignment" && expr.children[1].nodeType === "number") {
+        //
+        // x++ and x-- are parsed as (x += 1) - 1 and (x -= 1) + 1.
+        //
+        expr = expr.children[0];
+    }
+
+    if (expr.nodeType !== "assignment" || expr.assignee!.nodeType !== "identifier") {
+        return undefined;
+    }
+
+    const name = expr.assignee!.value;
+    const value = expr.children![0];
+    const readsAssignee = value.nodeType === "operation"
+        && (value.children || []).some(operand => operand.nodeType === "identifier" && operand.value === name);
+    return readsAssignee ? expr : undefined;
+}
+
+export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
+
+    const update = getSelfUpdate(node.children![0]);
+    const symbol = update && symbolTable.get(update.assignee!.value);
+    const wasUsed = symbol && symbol.isUsed;
+
+    symbolResolution.visitChildren(node, symbolTable);
+
+    if (symbol) {
+        //
+        // Reading a variable only to update it isn't a use of its value.
+        //
+        symbol.isUsed = wasUsed;
+    }
+}
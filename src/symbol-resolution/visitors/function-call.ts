@@ -1,21 +1,46 @@
 import { ISymbolResolution } from "..";
 import { ASTNode } from "../../ast";
+import { BUILTINS } from "../../builtins";
+import { SymbolType } from "../../symbol";
 import { ISymbolTable } from "../../symbol-table";
 
+//
+// Throws an error if the number of arguments passed to a function doesn't match the number of parameters.
+//
+function checkArgumentCount(node: ASTNode, numParams: number): void {
+    const numArgs = (node.functionArgs || []).length;
+    if (numArgs !== numParams) {
+        throw new Error(`Function ${node.value} expects ${numParams} argument${numParams === 1 ? "" : "s"}, found ${numArgs}.`);
+    }
+}
+
 export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
 
     symbolResolution.visitChildren(node, symbolTable);
 
+    for (const arg of node.functionArgs || []) {
+        symbolResolution.visitNode(arg, symbolTable);
+    }
+
+    const builtin = BUILTINS[node.value!];
+    if (builtin) {
+        checkArgumentCount(node, builtin.params.length);
+        return; // Builtin functions don't have symbols.
+    }
+
     const symbol = symbolTable.get(node.value!);
     if (symbol === undefined) {
-        //TODO: Re add this when symbols are added for built ins.
-        // throw new Error(`Function ${node.value} is not declared!`);
+        throw new Error(`Function ${node.value} is not declared.`);
     }
-    else {
-        node.symbol = symbol;
+
+    if (symbol.type !== SymbolType.Function) {
+        throw new Error(`${node.value} is not a function.`);
     }
 
-    for (const arg of node.functionArgs || []) {
-        symbolResolution.visitNode(arg, symbolTable);
+    node.symbol = symbol;
+    symbol.isUsed = true;
+
+    if (symbol.params) {
+        checkArgumentCount(node, symbol.params.length);
     }
-}
\ No newline at end of file
+}
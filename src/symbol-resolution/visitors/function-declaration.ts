@@ -1,28 +1,85 @@
 import { ISymbolResolution } from "..";
 import { ASTNode } from "../../ast";
+import { DiagnosticCode } from "../../error";
 import { SymbolType } from "../../symbol";
 import { ISymbolTable, SymbolTable } from "../../symbol-table";
 
-export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
-
-    symbolResolution.visitChildren(node, symbolTable);
-
+//
+// Defines the symbol for a function and the symbols for its parameters.
+// This is done before other statements are resolved so that functions can be called before they are declared.
+//
+export function declareFunction(node: ASTNode, symbolTable: ISymbolTable): void {
     const localSymbolTable = new SymbolTable(1, symbolTable); // The saved stack pointer occupies position 0, so local variables are occupated from position 1 in the functions stack frame.
     node.scope = localSymbolTable;
 
-    if (symbolTable.isDefinedLocally(node.value!)) {
-        throw new Error(`Symbol already declared: ${node.value!}`);
-    }
-
     node.symbol = symbolTable.define(node.value!, SymbolType.Function);
     node.symbol.returnType = node.returnType;
     node.symbol.scope = localSymbolTable;
+    node.symbol.params = [];
 
     if (node.params) {
-        for (const param of node.params) {
-            localSymbolTable.define(param, SymbolType.Variable);
+        node.params.forEach((param, index) => {
+            const paramSymbol = localSymbolTable.define(param, SymbolType.Variable);
+            const paramType = node.paramTypes && node.paramTypes[index];
+            if (paramType) {
+                paramSymbol.valueType = paramType;
+            }
+            node.symbol!.params!.push(paramSymbol);
+        });
+    }
+}
+
+export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
+
+    symbolResolution.visitChildren(node, symbolTable);
+
+    if (!node.symbol) {
+        //
+        // The function wasn't hoisted because its name is already in use.
+        //
+        if (symbolTable.isDefinedLocally(node.value!)) {
+            throw new Error(`Symbol already declared: ${node.value!}`);
         }
+
+        declareFunction(node, symbolTable);
+    }
+
+    symbolResolution.addDeclaration(node.symbol!, node);
+
+    if (node.params) {
+        node.params.forEach((param, index) => {
+            const paramType = node.paramTypes && node.paramTypes[index];
+            if (paramType && paramType.type === "void") {
+                throw new Error(`Parameter ${param} can't be void.`);
+            }
+
+            if (paramType && paramType.type === "tuple") {
+                throw new Error(`Parameter ${param} can't be a tuple, use a parameter for each value.`);
+            }
+
+            const paramNode = node.paramNodes && node.paramNodes[index] || node;
+            symbolResolution.addDeclaration(node.symbol!.params![index], paramNode, "Parameter");
+
+            if (symbolTable.get(param) !== undefined) {
+                symbolResolution.warn(paramNode, DiagnosticCode.ShadowedName, `Parameter ${param} shadows a symbol declared in an enclosing scope.`);
+            }
+        });
+    }
+
+    //
+    // Loops and switches outside the function don't enclose the function's body.
+    //
+    const loopDepth = symbolResolution.loopDepth;
+    const switchDepth = symbolResolution.switchDepth;
+    symbolResolution.loopDepth = 0;
+    symbolResolution.switchDepth = 0;
+
+    if (node.body!.nodeType === "block-statement") {
+        node.body!.scope = node.scope; // Parameters can't be redeclared in the body of the function.
     }
 
-    symbolResolution.visitNode(node.body!, localSymbolTable);
-}
\ No newline at end of file
+    symbolResolution.visitNode(node.body!, node.scope!);
+
+    symbolResolution.loopDepth = loopDepth;
+    symbolResolution.switchDepth = switchDepth;
+}
@@ -12,4 +12,5 @@ export default function (node: ASTNode, symbolResolution: ISymbolResolution, sym
     }
 
     node.symbol = symbol;
+    symbol.isUsed = true;
 }
\ No newline at end of file
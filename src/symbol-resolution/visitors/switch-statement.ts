@@ -0,0 +1,123 @@
+import { ISymbolResolution } from "..";
+import { ASTNode } from "../../ast";
+import { ISymbolTable } from "../../symbol-table";
+
+//
+// The characters of the encodings that pack a number of bits into each character.
+//
+const ENCODING_ALPHABETS = {
+    base64: { chars: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/", bitsPerChar: 6 },
+    base32: { chars: "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567", bitsPerChar: 5 },
+};
+
+//
+// Formats a byte as two hex digits.
+//
+function toHexByte(byte: number): string {
+    return byte.toString(16).padStart(2, "0");
+}
+
+//
+// Decodes a base64 or base32 value to hex.
+// Padding and bits left over after the last whole byte are ignored.
+//
+function decodeToHex(value: string, encoding: "base64" | "base32"): string {
+    const { chars, bitsPerChar } = ENCODING_ALPHABETS[encoding];
+    let bits = 0;
+    let numBits = 0;
+    let hex = "";
+    for (const ch of value.replace(/=+$/, "")) {
+        bits = ((bits << bitsPerChar) | chars.indexOf(ch)) & 0xffff;
+        numBits += bitsPerChar;
+        if (numBits >= 8) {
+            numBits -= 8;
+            hex += toHexByte((bits >> numBits) & 0xff);
+        }
+    }
+
+    return hex;
+}
+
+//
+// Gets a key that identifies the value of a constant case, or undefined if the case value isn't a constant.
+// Case values with the same key are duplicates.
+//
+function getCaseKey(node: ASTNode): string | undefined {
+    if (node.nodeType === "number") {
+        return `uint64:${node.value}`;
+    }
+
+    if (node.nodeType === "string-literal") {
+        if (node.encoding === "hex") {
+            return `bytes:${node.value.toLowerCase()}`;
+        }
+
+        //
+        // Byte values are compared as hex, so the same bytes in different encodings are duplicates.
+        //
+        if (node.encoding === "base64" || node.encoding === "base32") {
+            return `bytes:${decodeToHex(node.value, node.encoding)}`;
+        }
+
+        //
+        // Plain strings have one character per byte.
+        //
+        const hex = Array.from(node.value as string)
+            .map(ch => toHexByte(ch.charCodeAt(0)))
+            .join("");
+        return `bytes:${hex}`;
+    }
+
+    if (node.nodeType === "identifier" && node.symbol && node.symbol.value) {
+        //
+        // Constants known at compile time have the same key as their value.
+        //
+        return getCaseKey(node.symbol.value);
+    }
+
+    if (node.nodeType === "operation" && node.opcode === "int" && node.args) {
+        //
+        // Named constants like OnComplete.NoOp.
+        //
+        return `int:${node.args.join(" ")}`;
+    }
+
+    return undefined;
+}
+
+export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
+
+    symbolResolution.visitChildren(node, symbolTable);
+
+    const caseKeys = new Set<string>();
+    let hasDefault = false;
+
+    for (const caseNode of node.cases!) {
+        if (caseNode.children!.length === 0) {
+            if (hasDefault) {
+                throw new Error(`A switch statement can only have one default case.`);
+            }
+            hasDefault = true;
+            continue;
+        }
+
+        symbolResolution.visitChildren(caseNode, symbolTable); // Resolves constants in the case value.
+
+        const caseValue = caseNode.children![0];
+        const caseKey = getCaseKey(caseValue);
+        if (caseKey !== undefined) {
+            if (caseKeys.has(caseKey)) {
+                throw new Error(`Duplicate case value in switch statement.`);
+            }
+            caseKeys.add(caseKey);
+        }
+    }
+
+    symbolResolution.switchDepth += 1;
+
+    for (const caseNode of node.cases!) {
+        symbolResolution.visitNode(caseNode.body!, symbolTable);
+    }
+
+    symbolResolution.switchDepth -= 1;
+}
@@ -5,5 +5,14 @@ import { ISymbolTable } from "../../symbol-table";
 export default function (node: ASTNode, symbolResolution: ISymbolResolution, symbolTable: ISymbolTable) {
 
     symbolResolution.visitChildren(node, symbolTable);
+
+    symbolResolution.loopDepth += 1;
+
     symbolResolution.visitNode(node.body!, symbolTable);
-}
\ No newline at end of file
+
+    if (node.increment) {
+        symbolResolution.visitNode(node.increment, symbolTable);
+    }
+
+    symbolResolution.loopDepth -= 1;
+}
@@ -1,3 +1,4 @@
+import { ASTNode } from "./ast";
 import { ISymbol, SymbolType } from "./symbol";
 
 //
@@ -20,6 +21,11 @@ export interface ISymbolTable {
     //
     define(name: string, type: SymbolType): ISymbol;
 
+    //
+    // Defines a constant whose value is known at compile time, so it doesn't need a position in scratch.
+    //
+    defineConstant(name: string, value: ASTNode): ISymbol;
+
     //
     // Gets all symbols in the table.
     //
@@ -29,6 +35,19 @@ export interface ISymbolTable {
     // Get the number of symbols defined.
     //
     getNumSymbols(): number;
+
+    //
+    // Creates a nested scope for a block of code.
+    // Variables in the block are allocated in the same stack frame (or in globals) after the variables 
+    // that are currently in scope, so their positions can be reused after the block has ended.
+    //
+    createBlockScope(): ISymbolTable;
+
+    //
+    // Gets the number of positions in scratch needed for the variables of the stack frame (or globals) 
+    // that this scope belongs to, including the variables of nested block scopes.
+    //
+    getNumVariables(): number;
 }
 
 //
@@ -47,14 +66,33 @@ export class SymbolTable implements ISymbolTable {
     //
     private parent?: ISymbolTable;
 
+    //
+    // The table that owns the positions allocated for variables.
+    // This is the table itself, unless it is the scope for a block of code.
+    //
+    private frame: SymbolTable;
+
+    //
+    // Position for the first scratch variable.
+    //
+    private startingVariablePosition: number;
+
     //
     // Position for the next scratch variable.
     //
     private nextVariablePosition: number;
 
-    constructor(startingVariablePosition: number, parent?: ISymbolTable) {
+    //
+    // One past the highest position allocated in this table and its nested block scopes.
+    //
+    private endVariablePosition: number;
+
+    constructor(startingVariablePosition: number, parent?: ISymbolTable, frame?: SymbolTable) {
+        this.startingVariablePosition = startingVariablePosition;
         this.nextVariablePosition = startingVariablePosition;
+        this.endVariablePosition = startingVariablePosition;
         this.parent = parent;
+        this.frame = frame || this;
     }
 
     //
@@ -94,7 +132,7 @@ export class SymbolTable implements ISymbolTable {
             name: name,
             type: type,
             position: type !== SymbolType.Function ? this.nextVariablePosition : undefined,
-            isGlobal: this.parent === undefined,
+            isGlobal: this.frame.parent === undefined,
         };
 
         this.symbols.set(name, symbol);
@@ -104,10 +142,26 @@ export class SymbolTable implements ISymbolTable {
             // Not a function, prepare to allocate next variable location.
             //
             this.nextVariablePosition += 1;
+            this.frame.endVariablePosition = Math.max(this.frame.endVariablePosition, this.nextVariablePosition);
         }
 
         return symbol;
     }
+
+    //
+    // Defines a constant whose value is known at compile time, so it doesn't need a position in scratch.
+    //
+    defineConstant(name: string, value: ASTNode): ISymbol {
+        const symbol: ISymbol = {
+            name: name,
+            type: SymbolType.Constant,
+            value: value,
+            isGlobal: this.frame.parent === undefined,
+        };
+
+        this.symbols.set(name, symbol);
+        return symbol;
+    }
     
     //
     // Gets all symbols in the table.
@@ -123,4 +177,19 @@ export class SymbolTable implements ISymbolTable {
         return this.symbols.size;
     }
 
+    //
+    // Creates a nested scope for a block of code.
+    //
+    createBlockScope(): ISymbolTable {
+        return new SymbolTable(this.nextVariablePosition, this, this.frame);
+    }
+
+    //
+    // Gets the number of positions in scratch needed for the variables of the stack frame (or globals) 
+    // that this scope belongs to, including the variables of nested block scopes.
+    //
+    getNumVariables(): number {
+        return this.frame.endVariablePosition - this.frame.startingVariablePosition;
+    }
+
 }
\ No newline at end of file
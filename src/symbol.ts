@@ -1,6 +1,7 @@
 //
 // Sets the type of a symbol.
 
+import { ASTNode } from "./ast";
 import { ISymbolTable } from "./symbol-table";
 import { IType } from "./type";
 
@@ -26,21 +27,42 @@ export interface ISymbol {
     //
     readonly type: SymbolType;
 
+    //
+    // The type of the value of variable and constant symbols, when known.
+    //
+    valueType?: IType;
+
+    //
+    // The symbols for the parameters of function symbols, in order.
+    //
+    params?: ISymbol[];
+
     //
     // The return type for function symbols.
     //
     returnType?: IType;
 
+    //
+    // Set by symbol resolution when the value of a variable is read or a function is called.
+    //
+    isUsed?: boolean;
+
     //
     // If this symbol defines a new scope, this is the scopes symbol table.
     //
     scope?: ISymbolTable;
 
     //
-    // Position of the symbol in scratch memory (if not a function).
+    // Position of the symbol in scratch memory (if not a function or a constant whose value is known at compile time).
     //
     readonly position?: number;
 
+    //
+    // For constants whose value is known at compile time, the expression for the value.
+    // Constant folding replaces uses of the constant with the value.
+    //
+    value?: ASTNode;
+
     //
     // Records if a symbol is a global.
     //
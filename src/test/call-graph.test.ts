@@ -0,0 +1,88 @@
+import { allocateFunctionSlots, buildCallGraph, findRecursiveFunctions } from "../call-graph";
+import { parse } from "../parser";
+import { SymbolResolution } from "../symbol-resolution";
+import { SymbolTable } from "../symbol-table";
+
+describe("call graph", () => {
+
+    //
+    // Parses code, resolves symbols and builds the call graph.
+    //
+    function callGraphFor(code: string) {
+        const ast = parse(code, err => { throw new Error(err.message) });
+        const symbolResolution = new SymbolResolution(err => {
+            if (err.severity !== "warning") {
+                throw new Error(err.message);
+            }
+        });
+        symbolResolution.resolveSymbols(ast, new SymbolTable(1));
+        return buildCallGraph(ast);
+    }
+
+    //
+    // Gets the names of the functions called by a function.
+    //
+    function calledBy(callGraph: ReturnType<typeof buildCallGraph>, name: string): string[] {
+        for (const [ symbol, calls ] of callGraph.calls) {
+            if (symbol.name === name) {
+                return calls.map(call => call.symbol!.name);
+            }
+        }
+        throw new Error(`Function ${name} not found.`);
+    }
+
+    it("records calls made by global code and by functions", () => {
+        const callGraph = callGraphFor(`
+            function f(): uint64 { return g() + g(); }
+            function g(): uint64 { return btoi("a"); }
+            let x = f();
+            if (x) {
+                g();
+            }
+        `);
+
+        expect(callGraph.globalCalls.map(call => call.symbol!.name)).toEqual([ "f", "g" ]);
+        expect(callGraph.functions.size).toBe(2);
+        expect(calledBy(callGraph, "f")).toEqual([ "g", "g" ]);
+        expect(calledBy(callGraph, "g")).toEqual([]);
+    });
+
+    it("finds functions that call themselves", () => {
+        const callGraph = callGraphFor(`
+            function isEven(n: uint64): uint64 { return n == 0 ? 1 : isOdd(n - 1); }
+            function isOdd(n: uint64): uint64 { return n == 0 ? 0 : isEven(n - 1); }
+            function count(n: uint64): uint64 { return n == 0 ? 0 : count(n - 1) + 1; }
+            function main(): uint64 { return isEven(4) + count(2); }
+            return main();
+        `);
+
+        const names = Array.from(findRecursiveFunctions(callGraph)).map(symbol => symbol.name).sort();
+        expect(names).toEqual([ "count", "isEven", "isOdd" ]);
+    });
+
+    it("finds no recursive functions when there is no recursion", () => {
+        const callGraph = callGraphFor(`
+            function f(): uint64 { return g(); }
+            function g(): uint64 { return 1; }
+            return f() + g();
+        `);
+
+        expect(findRecursiveFunctions(callGraph).size).toBe(0);
+    });
+
+    it("allocates fixed slots after the slots of functions that can be running", () => {
+        const callGraph = callGraphFor(`
+            function f(a: uint64): uint64 { let b = a; return g(b) + h(b); }
+            function g(a: uint64): uint64 { return h(a); }
+            function h(a: uint64): uint64 { return a; }
+            function k(a: uint64, b: uint64): uint64 { return a + b; }
+            function count(n: uint64): uint64 { return n == 0 ? 0 : count(n - 1) + h(n); }
+            return f(1) + k(2, 3) + count(2);
+        `);
+
+        const { firstSlots, numSlots } = allocateFunctionSlots(callGraph, findRecursiveFunctions(callGraph), 5);
+        const slots = Array.from(firstSlots).map(([ symbol, firstSlot ]) => `${symbol.name}: ${firstSlot}`).sort();
+        expect(slots).toEqual([ "f: 5", "g: 7", "h: 8", "k: 5" ]);
+        expect(numSlots).toBe(4);
+    });
+});
@@ -45,4 +45,46 @@ describe("code emitter", () => {
         codeEmitter.resetStack();
         expect(codeEmitter.getStackSize()).toBe(0);
     });
+
+    it("can reset the stack to a number of items", () => {
+
+        const codeEmitter = new CodeEmitter(false);
+        codeEmitter.resetStack(2);
+        codeEmitter.add(`X`, 0, 2);
+        expect(codeEmitter.getStackSize()).toBe(0);
+    });
+
+    it("can't emit an opcode that isn't available in the target version of TEAL", () => {
+
+        const codeEmitter = new CodeEmitter(false, 4);
+        expect(() => codeEmitter.add(`loads`, 1, 1))
+            .toThrow(`The loads opcode requires TEAL version 5 or later, the target is TEAL version 4.`);
+        expect(codeEmitter.getOutput()).toEqual([]);
+    });
+
+    it("labels and unknown opcodes aren't checked against the target version of TEAL", () => {
+
+        const codeEmitter = new CodeEmitter(false, 2);
+        codeEmitter.label(`switch`);
+        codeEmitter.add(`X`, 0, 0);
+        expect(codeEmitter.getOutput()).toEqual([`switch:`, `X`]);
+    });
+
+    it("pops items one at a time before TEAL version 8", () => {
+
+        const codeEmitter = new CodeEmitter(false, 7);
+        codeEmitter.add(`X`, 3, 0);
+        codeEmitter.popAll();
+        expect(codeEmitter.getOutput()).toEqual([`X`, `pop`, `pop`, `pop`]);
+        expect(codeEmitter.getStackSize()).toBe(0);
+    });
+
+    it("pops all items at once from TEAL version 8", () => {
+
+        const codeEmitter = new CodeEmitter(false, 8);
+        codeEmitter.add(`X`, 3, 0);
+        codeEmitter.popAll();
+        expect(codeEmitter.getOutput()).toEqual([`X`, `popn 3`]);
+        expect(codeEmitter.getStackSize()).toBe(0);
+    });
 });
\ No newline at end of file
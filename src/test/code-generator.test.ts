@@ -10,9 +10,9 @@ describe("code generator", () => {
     //
     // Generates code from an AST.
     //
-    function generateCode(ast: ASTNode) {
+    function generateCode(ast: ASTNode, tealVersion?: number) {
         let errors: IError[] = [];
-        const codeEmitter = new CodeEmitter(false);
+        const codeEmitter = new CodeEmitter(false, tealVersion);
         const codeGenerator = new CodeGenerator(codeEmitter, err => { errors.push(err) });
         codeGenerator.generateCode(ast);
         const output = codeEmitter.getOutput();
@@ -429,6 +429,447 @@ describe("code generator", () => {
 
     });
 
+    it("can generate code for while loop with increment", () => {
+
+        const ast: ASTNode = {
+            nodeType: "while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 4,
+                },
+            ],
+            body: {
+                nodeType: "number",
+                value: 5,
+            },
+            increment: {
+                nodeType: "number",
+                value: 6,
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "int 4",
+            "bz loop_end_1",
+            "int 5",
+            "loop_continue_1:",
+            "int 6",
+            "b loop_start_1",
+            "loop_end_1:",            
+        ]);
+    });
+
+    it("can generate code for do while loop", () => {
+
+        const ast: ASTNode = {
+            nodeType: "do-while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            body: {
+                nodeType: "block-statement",
+                children: [
+                    {
+                        nodeType: "continue-statement",
+                    },
+                    {
+                        nodeType: "break-statement",
+                    },
+                ],
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "b loop_continue_1",
+            "b loop_end_1",
+            "loop_continue_1:",
+            "int 1",
+            "bnz loop_start_1",
+            "loop_end_1:",
+        ]);
+    });
+
+    it("break jumps to the end of the loop", () => {
+
+        const ast: ASTNode = {
+            nodeType: "while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            body: {
+                nodeType: "break-statement",
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "int 1",
+            "bz loop_end_1",
+            "b loop_end_1",
+            "b loop_start_1",
+            "loop_end_1:",            
+        ]);
+    });
+
+    it("continue jumps to the start of the loop", () => {
+
+        const ast: ASTNode = {
+            nodeType: "while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            body: {
+                nodeType: "continue-statement",
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "int 1",
+            "bz loop_end_1",
+            "b loop_start_1",
+            "b loop_start_1",
+            "loop_end_1:",            
+        ]);
+    });
+
+    it("continue jumps to the increment of the loop", () => {
+
+        const ast: ASTNode = {
+            nodeType: "while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            body: {
+                nodeType: "continue-statement",
+            },
+            increment: {
+                nodeType: "number",
+                value: 2,
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "int 1",
+            "bz loop_end_1",
+            "b loop_continue_1",
+            "loop_continue_1:",
+            "int 2",
+            "b loop_start_1",
+            "loop_end_1:",            
+        ]);
+    });
+
+    it("break and continue target the innermost loop", () => {
+
+        const ast: ASTNode = {
+            nodeType: "while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            body: {
+                nodeType: "block-statement",
+                children: [
+                    {
+                        nodeType: "while-statement",
+                        children: [
+                            {
+                                nodeType: "number",
+                                value: 2,
+                            },
+                        ],
+                        body: {
+                            nodeType: "break-statement",
+                        },
+                    },
+                    {
+                        nodeType: "continue-statement",
+                    },
+                ],
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "int 1",
+            "bz loop_end_1",
+                "loop_start_2:",
+                "int 2",
+                "bz loop_end_2",
+                "b loop_end_2",
+                "b loop_start_2",
+                "loop_end_2:",
+            "b loop_start_1",
+            "b loop_start_1",
+            "loop_end_1:",            
+        ]);
+    });
+
+    //
+    // Makes a switch statement where each case contains a single expression statement.
+    //
+    function makeSwitch(caseValues: (number | undefined)[]): ASTNode {
+        return {
+            nodeType: "switch-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 10,
+                },
+            ],
+            cases: caseValues.map((caseValue, caseIndex) => ({
+                nodeType: "switch-case",
+                children: caseValue !== undefined
+                    ? [
+                        {
+                            nodeType: "number",
+                            value: caseValue,
+                        },
+                    ]
+                    : [],
+                body: {
+                    nodeType: "block-statement",
+                    children: [
+                        {
+                            nodeType: "expr-statement",
+                            children: [
+                                {
+                                    nodeType: "number",
+                                    value: 100 + caseIndex,
+                                },
+                            ],
+                        },
+                    ],
+                },
+            })),
+        };
+    }
+
+    it("can generate code for switch statement as a comparison chain", () => {
+
+        const { output } = generateCode(makeSwitch([1, 2, undefined]));
+        expect(output).toEqual([
+            "int 10",
+            "dup",
+            "int 1",
+            "==",
+            "bnz switch_match_1_0",
+            "dup",
+            "int 2",
+            "==",
+            "bnz switch_match_1_1",
+            "pop",
+            "b switch_case_1_2",
+            "switch_match_1_0:",
+            "pop",
+            "b switch_case_1_0",
+            "switch_match_1_1:",
+            "pop",
+            "b switch_case_1_1",
+            "switch_case_1_0:",
+            "int 100",
+            "pop",
+            "switch_case_1_1:",
+            "int 101",
+            "pop",
+            "switch_case_1_2:",
+            "int 102",
+            "pop",
+            "switch_end_1:",
+        ]);
+    });
+
+    it("switch statement without a default case jumps to the end when nothing matches", () => {
+
+        const { output } = generateCode(makeSwitch([1]));
+        expect(output).toEqual([
+            "int 10",
+            "dup",
+            "int 1",
+            "==",
+            "bnz switch_match_1_0",
+            "pop",
+            "b switch_end_1",
+            "switch_match_1_0:",
+            "pop",
+            "b switch_case_1_0",
+            "switch_case_1_0:",
+            "int 100",
+            "pop",
+            "switch_end_1:",
+        ]);
+    });
+
+    it("can generate code for switch statement with match", () => {
+
+        const { output } = generateCode(makeSwitch([5, 2, undefined]), 8);
+        expect(output).toEqual([
+            "int 5",
+            "int 2",
+            "int 10",
+            "match switch_case_1_0 switch_case_1_1",
+            "b switch_case_1_2",
+            "switch_case_1_0:",
+            "int 100",
+            "pop",
+            "switch_case_1_1:",
+            "int 101",
+            "pop",
+            "switch_case_1_2:",
+            "int 102",
+            "pop",
+            "switch_end_1:",
+        ]);
+    });
+
+    it("switch statement with a case value that isn't a literal uses a comparison chain", () => {
+
+        const ast = makeSwitch([1, 2]);
+        ast.cases![1].children = [
+            {
+                nodeType: "operation",
+                opcode: "+",
+                children: [
+                    {
+                        nodeType: "number",
+                        value: 1,
+                    },
+                    {
+                        nodeType: "number",
+                        value: 1,
+                    },
+                ],
+            },
+        ];
+
+        const { output } = generateCode(ast, 8);
+        expect(output).toEqual([
+            "int 10",
+            "dup",
+            "int 1",
+            "==",
+            "bnz switch_match_1_0",
+            "dup",
+            "int 1",
+            "int 1",
+            "+",
+            "==",
+            "bnz switch_match_1_1",
+            "pop",
+            "b switch_end_1",
+            "switch_match_1_0:",
+            "pop",
+            "b switch_case_1_0",
+            "switch_match_1_1:",
+            "pop",
+            "b switch_case_1_1",
+            "switch_case_1_0:",
+            "int 100",
+            "pop",
+            "switch_case_1_1:",
+            "int 101",
+            "pop",
+            "switch_end_1:",
+        ]);
+    });
+
+    it("can generate code for switch statement with switch when case values are 0 to N-1", () => {
+
+        const { output } = generateCode(makeSwitch([1, 0]), 8);
+        expect(output).toEqual([
+            "int 10",
+            "switch switch_case_1_1 switch_case_1_0",
+            "b switch_end_1",
+            "switch_case_1_0:",
+            "int 100",
+            "pop",
+            "switch_case_1_1:",
+            "int 101",
+            "pop",
+            "switch_end_1:",
+        ]);
+    });
+
+    it("break jumps to the end of the switch and continue to the enclosing loop", () => {
+
+        const ast: ASTNode = {
+            nodeType: "while-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            body: {
+                nodeType: "switch-statement",
+                children: [
+                    {
+                        nodeType: "number",
+                        value: 2,
+                    },
+                ],
+                cases: [
+                    {
+                        nodeType: "switch-case",
+                        children: [],
+                        body: {
+                            nodeType: "block-statement",
+                            children: [
+                                {
+                                    nodeType: "continue-statement",
+                                },
+                                {
+                                    nodeType: "break-statement",
+                                },
+                            ],
+                        },
+                    },
+                ],
+            },
+        };
+
+        const { output } = generateCode(ast);
+        expect(output).toEqual([
+            "loop_start_1:",
+            "int 1",
+            "bz loop_end_1",
+                "int 2",
+                "pop",
+                "b switch_case_2_0",
+                "switch_case_2_0:",
+                "b loop_start_1",
+                "b switch_end_2",
+                "switch_end_2:",
+            "b loop_start_1",
+            "loop_end_1:",
+        ]);
+    });
+
     it("can generate code for assignment to global variable", () => {
         const node: ASTNode = {
             nodeType: "block-statement",
@@ -668,7 +1109,7 @@ describe("code generator", () => {
             value: "myFunction",
             params: [],
             scope: {
-                getNumSymbols: () => 0,
+                getNumVariables: () => 0,
             },
             body: {
                 nodeType: "return-statement",
@@ -721,7 +1162,7 @@ describe("code generator", () => {
             value: "myFunction",
             params: [],
             scope: {
-                getNumSymbols: () => 0,
+                getNumVariables: () => 0,
             },
             body: {
                 nodeType: "number",
@@ -762,6 +1203,119 @@ describe("code generator", () => {
         ]);
     });
 
+    it("can declare a function with an AVM stack frame", () => {
+        const ast: any = {
+            nodeType: "function-declaration",
+            value: "myFunction",
+            params: [],
+            returnType: { type: "uint64" },
+            scope: {
+                getNumVariables: () => 0,
+            },
+            body: {
+                nodeType: "return-statement",
+                children: [
+                    {
+                        nodeType: "number",
+                        value: 1,
+                    },        
+                ],
+            },
+        };
+
+        const { output } = generateCode(ast, 8);
+        expect(output).toEqual([
+            "b program_end",
+            "myFunction:",
+            "proto 0 1",
+            "",
+            "int 1",
+            "retsub",
+            "",
+            "program_end:",
+        ]);
+    });
+
+    it("arguments and local variables are accessed in the AVM stack frame", () => {
+        const a = {
+            name: "a",
+            type: SymbolType.Variable,
+            position: 1,
+            isGlobal: false,
+        };
+        const b = {
+            name: "b",
+            type: SymbolType.Variable,
+            position: 2,
+            isGlobal: false,
+        };
+        const x = {
+            name: "x",
+            type: SymbolType.Variable,
+            position: 3,
+            isGlobal: false,
+        };
+        const y = {
+            name: "y",
+            type: SymbolType.Variable,
+            position: 4,
+            isGlobal: false,
+        };
+        const ast: any = {
+            nodeType: "function-declaration",
+            value: "myFunction",
+            params: [ "a", "b" ],
+            returnType: { type: "void" },
+            scope: {
+                getNumVariables: () => 4,
+            },
+            body: {
+                nodeType: "expr-statement",
+                children: [
+                    {
+                        nodeType: "assignment",
+                        symbol: y,
+                        children: [
+                            {
+                                nodeType: "operation",
+                                opcode: "+",
+                                children: [
+                                    {
+                                        nodeType: "identifier",
+                                        symbol: a,
+                                    },
+                                    {
+                                        nodeType: "identifier",
+                                        symbol: x,
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            },
+        };
+
+        const { output } = generateCode(ast, 8);
+        expect(output).toEqual([
+            "b program_end",
+            "myFunction:",
+            "proto 2 0",
+            "int 0",
+            "dupn 1",
+            "",
+            "frame_dig -2",
+            "frame_dig 0",
+            "+",
+            "dup",
+            "frame_bury 1",
+            "pop",
+            "retsub",
+            "",
+            "program_end:",
+        ]);
+    });
+
     it("code generation reports an error when visitor throws", () => {
 
         const nodeType = "bad-node";
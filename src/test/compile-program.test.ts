@@ -0,0 +1,179 @@
+import { compileProgram } from "..";
+
+describe("compile program", () => {
+
+    it("compiles a program to TEAL", () => {
+        const result = compileProgram(`return 1;`, { disableVersionStamp: true });
+        expect(result.success).toBe(true);
+        expect(result.teal).toContain(`#pragma version`);
+        expect(result.teal).toContain(`return`);
+        expect(result.diagnostics).toEqual([]);
+    });
+
+    it("reports errors without writing to the console", () => {
+        const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+        const consoleLog = jest.spyOn(console, "log").mockImplementation(() => {});
+
+        try {
+            const result = compileProgram(`return y;`);
+            expect(result.success).toBe(false);
+            expect(result.teal).toBeUndefined();
+            expect(result.diagnostics).toEqual([
+                expect.objectContaining({
+                    message: `Variable y is not declared!`,
+                    severity: "error",
+                    line: 1,
+                }),
+            ]);
+            expect(consoleError).not.toHaveBeenCalled();
+            expect(consoleLog).not.toHaveBeenCalled();
+        }
+        finally {
+            consoleError.mockRestore();
+            consoleLog.mockRestore();
+        }
+    });
+
+    it("reports an unsupported version of TEAL as a diagnostic", () => {
+        const result = compileProgram(`return 1;`, { targetVersion: 99 });
+        expect(result.success).toBe(false);
+        expect(result.teal).toBeUndefined();
+        expect(result.diagnostics).toEqual([
+            expect.objectContaining({
+                message: `Unsupported TEAL version 99, expected a version from 2 to 10.`,
+                severity: "error",
+                line: 1,
+                column: 0,
+            }),
+        ]);
+    });
+
+    it("reports warnings for a program that compiles", () => {
+        const result = compileProgram(`let x = 1;`);
+        expect(result.success).toBe(true);
+        expect(result.diagnostics).toEqual([
+            expect.objectContaining({
+                message: `Variable x is declared but never used.`,
+                severity: "warning",
+            }),
+        ]);
+    });
+
+    it("result can be converted to JSON", () => {
+        const result = compileProgram(`
+            function add(a: uint64, b: uint64): uint64 {
+                let (x, y) = (a, b);
+                return x + y;
+            }
+            const k = 18446744073709551615;
+            return add(k, 2);
+        `);
+        expect(result.success).toBe(true);
+        expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+    });
+
+    it("result of a program with errors can be converted to JSON", () => {
+        const result = compileProgram(`function f() { return x; }`);
+        expect(result.success).toBe(false);
+        expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+    });
+
+    it("nodes reference symbols by id", () => {
+        const result = compileProgram(`
+            function f(a: uint64): uint64 {
+                return a;
+            }
+            let x = 1;
+            return f(x);
+        `);
+
+        const [ functionNode, declarationNode, returnNode ] = result.ast.children!;
+        expect(functionNode.scope).toBeUndefined();
+
+        const functionSymbol = result.symbols[functionNode.symbol!];
+        expect(functionSymbol).toEqual(expect.objectContaining({
+            name: "f",
+            kind: "function",
+            isGlobal: true,
+            isUsed: true,
+            returnType: { type: "uint64" },
+        }));
+        expect(functionSymbol.params!.map(id => result.symbols[id].name)).toEqual([ "a" ]);
+
+        const variableSymbol = result.symbols[declarationNode.symbol!];
+        expect(variableSymbol).toEqual(expect.objectContaining({
+            name: "x",
+            kind: "variable",
+            isGlobal: true,
+            position: 1,
+            valueType: { type: "uint64" },
+        }));
+
+        const callNode = returnNode.children![0];
+        expect(callNode.symbol).toBe(functionNode.symbol);
+        expect(callNode.functionArgs[0].symbol).toBe(declarationNode.symbol);
+    });
+
+    it("parameters of a recursive function keep their order in the AST", () => {
+        const result = compileProgram(`
+            function f(a: uint64, b: byte[]): uint64 {
+                return a == 0 ? btoi(b) : f(a - 1, b);
+            }
+            return f(2, "1");
+        `);
+        expect(result.success).toBe(true);
+
+        const functionNode = result.ast.children![0];
+        expect(functionNode.params).toEqual([ "a", "b" ]);
+        expect(functionNode.paramTypes).toEqual([ { type: "uint64" }, { type: "byte[]" } ]);
+    });
+
+    it("numbers are converted to strings", () => {
+        const result = compileProgram(`return 18446744073709551615;`);
+        const numberNode = result.ast.children![0].children![0];
+        expect(numberNode.value).toBe("18446744073709551615");
+    });
+
+    it("source map relates lines of TEAL to the Aqua code", () => {
+        const result = compileProgram(`let x = 1;\nx = x + 2;\nreturn x;`);
+        expect(result.success).toBe(true);
+
+        const tealLines = result.teal!.split("\r\n");
+        for (const entry of result.sourceMap) {
+            expect(tealLines[entry.tealLine - 1]).toBeDefined();
+        }
+
+        const linesFor = (line: number) => result.sourceMap
+            .filter(entry => entry.line === line)
+            .map(entry => tealLines[entry.tealLine - 1]);
+        expect(linesFor(1)).toContain(`int 1`);
+        expect(linesFor(2)).toContain(`int 2`);
+        expect(linesFor(2)).toContain(`+`);
+        expect(linesFor(3)).toContain(`return`);
+    });
+
+    it("generated function code maps to the function", () => {
+        const result = compileProgram(`function f(): uint64 {\n    return 1;\n}\nreturn f();`);
+        const tealLines = result.teal!.split("\r\n");
+        const functionLine = tealLines.indexOf(`f:`) + 1;
+        expect(result.sourceMap).toContainEqual({ tealLine: functionLine, line: 1, column: 0 });
+    });
+
+    it("reports statistics", () => {
+        const result = compileProgram(`
+            function f(): uint64 {
+                return 1;
+            }
+            function g(): uint64 {
+                return f();
+            }
+            let (a, b) = (1, 2);
+            return g() + a + b;
+        `);
+        expect(result.stats.numTealLines).toBe(result.teal!.split("\r\n").length);
+        expect(result.stats.numInstructions).toBeGreaterThan(0);
+        expect(result.stats.numInstructions).toBeLessThan(result.stats.numTealLines);
+        expect(result.stats.numGlobals).toBe(2);
+        expect(result.stats.numFunctions).toBe(2);
+    });
+});
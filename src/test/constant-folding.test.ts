@@ -0,0 +1,161 @@
+import { Compiler } from "..";
+
+describe("constant folding", () => {
+
+    //
+    // Compiles code, returning the TEAL code and the errors.
+    //
+    function compile(code: string) {
+        const compiler = new Compiler({ disableVersionStamp: true });
+        const result = compiler.compile(code);
+        return { output: result.output, errors: compiler.errors, ast: result.ast };
+    }
+
+    it("folds operations on numbers", () => {
+        const { output, errors } = compile(`return 2 * 60 * 60 + (10 - 4) / 3;`);
+
+        expect(errors).toEqual([]);
+        expect(output).toBe(`#pragma version 5\r\nint 7202\r\nreturn`);
+    });
+
+    it("folds the operations that TEAL provides", () => {
+        for (const [ expression, expected ] of [
+            [ "7 % 3", 1 ],
+            [ "3 < 4", 1 ],
+            [ "3 >= 4", 0 ],
+            [ "5 && 0", 0 ],
+            [ "0 || 2", 1 ],
+            [ "!0", 1 ],
+            [ "12 & 10", 8 ],
+            [ "12 | 10", 14 ],
+            [ "12 ^ 10", 6 ],
+            [ "~18446744073709551614", 1 ],
+            [ "1 << 63 >> 62", 2 ],
+            [ "3 << 63", BigInt("9223372036854775808") ],
+            [ "2 == 2", 1 ],
+            [ `"ab" == hex"6162"`, 1 ],
+            [ `"ab" != "ac"`, 1 ],
+        ] as [string, number | bigint][]) {
+            expect(compile(`return ${expression};`).output).toContain(`int ${expected}\r\n`);
+        }
+    });
+
+    it("doesn't fold operations whose values are only known at runtime", () => {
+        const { output } = compile(`let x = 1;\nreturn x + 2 * 3 + txn.Fee;`);
+
+        expect(output).toContain(`load 1\r\nint 6\r\n+\r\ntxn Fee\r\n+`);
+    });
+
+    it("doesn't fold comparisons of strings with bytes that are only known when the TEAL code is assembled", () => {
+        const { output } = compile(`return hex"deadbeef" == b64"3q2+7w==";`);
+
+        expect(output).toContain(`==`);
+    });
+
+    it("constants are replaced by their values and don't use scratch", () => {
+        const { output, errors, ast } = compile(`
+            const SECONDS_PER_HOUR = 60 * 60;
+            const TWO_HOURS = 2 * SECONDS_PER_HOUR;
+            const NAME = "aqua";
+            let x = 1;
+            if (NAME == "aqua") {
+                x = TWO_HOURS;
+            }
+            return x;
+        `);
+
+        expect(errors).toEqual([]);
+        expect(ast.scope!.getNumVariables()).toBe(1);
+        expect(output).toContain(`int 7200\r\ndup\r\nstore 1`);
+        expect(output).not.toContain(`store 2`);
+        expect(output).not.toContain(`byte "aqua"`);
+    });
+
+    it("constants in functions are replaced by their values", () => {
+        const { output, errors } = compile(`
+            function hours(n: uint64): uint64 {
+                const SECONDS_PER_HOUR = 3600;
+                return n * SECONDS_PER_HOUR;
+            }
+            return hours(2);
+        `);
+
+        expect(errors).toEqual([]);
+        expect(output).toMatch(/hours:\s+store 1\s+load 1\s+int 3600\s+\*/);
+    });
+
+    it("constants whose values are only known at runtime use scratch", () => {
+        const { output, errors } = compile(`
+            const fee = txn.Fee;
+            return fee + 1;
+        `);
+
+        expect(errors).toEqual([]);
+        expect(output).toContain(`store 1`);
+        expect(output).toContain(`load 1`);
+    });
+
+    it("reports an error for division by zero", () => {
+        const { errors } = compile(`const ZERO = 0;\nreturn 10 / ZERO;`);
+
+        expect(errors).toEqual([
+            expect.objectContaining({
+                message: `Division by zero.`,
+                code: "AQ3002",
+                line: 2,
+                column: 7,
+                endColumn: 16,
+            }),
+        ]);
+    });
+
+    it("doesn't fold the right operand of a logical operator when the left operand decides the result", () => {
+        const { output, errors } = compile(`const X = 0 && 1 / 0;\nlet x = 0 && 1 / 0;\nlet y = 2 || 1 / 0;\nreturn X + x + y;`);
+
+        expect(errors).toEqual([]);
+        expect(output).not.toContain(`/`);
+        expect(output).toContain(`int 0\r\ndup\r\nstore 1`);
+        expect(output).toContain(`int 1\r\ndup\r\nstore 2`);
+    });
+
+    it("folds the right operand of a logical operator when the left operand doesn't decide the result", () => {
+        const { output, errors } = compile(`let x = 1 && 4 / 2;\nreturn x || txn.Fee;`);
+
+        expect(errors).toEqual([]);
+        expect(output).toContain(`int 1\r\ndup\r\nstore 1`);
+        expect(compile(`return 1 && 1 / 0;`).errors.map(error => error.message)).toEqual([ `Division by zero.` ]);
+    });
+
+    it("reports an error for the remainder of division by zero", () => {
+        const { errors } = compile(`return 10 % (2 - 2);`);
+
+        expect(errors.map(error => error.message)).toEqual([ `Division by zero.` ]);
+    });
+
+    it("reports an error for overflow", () => {
+        const { errors } = compile(`const MAX = 18446744073709551615;\nconst TOO_BIG = MAX + 1;\nreturn TOO_BIG;`);
+
+        expect(errors).toEqual([
+            expect.objectContaining({
+                message: `Overflow: the result of 18446744073709551615 + 1 is more than the largest uint64 (18446744073709551615).`,
+                line: 2,
+                column: 16,
+            }),
+        ]);
+        expect(compile(`return 4294967296 * 4294967296;`).errors.map(error => error.message)).toEqual([
+            `Overflow: the result of 4294967296 * 4294967296 is more than the largest uint64 (18446744073709551615).`,
+        ]);
+    });
+
+    it("reports an error for underflow", () => {
+        const { errors } = compile(`return 1 - 2;`);
+
+        expect(errors.map(error => error.message)).toEqual([ `Underflow: the result of 1 - 2 is less than zero.` ]);
+    });
+
+    it("reports an error for shifting by 64 bits or more", () => {
+        const { errors } = compile(`return 1 << 64;`);
+
+        expect(errors.map(error => error.message)).toEqual([ `Can't shift by 64 bits, the shift must be less than 64.` ]);
+    });
+});
@@ -50,7 +50,7 @@ describe("expression", () => {
         expect(teal).toEqual(expectedTeal);
     }
 
-    for (const operator of ["+", "-", "*", "/"]) {
+    for (const operator of ["+", "-", "*", "/", "%", "&", "|", "^"]) {
         it(`can compile a ${operator} expression`, ()  => {
             check(
                 `1 ${operator} 2`, 
@@ -63,6 +63,14 @@ describe("expression", () => {
         });
     }
 
+    it("can compile a number that is larger than 2^53", ()  => {
+        check("18446744073709551615", "int 18446744073709551615");
+    });
+
+    it("can compile a hex number", ()  => {
+        check("0xFF", "int 255");
+    });
+
     it("can compile a parenthesized expression", ()  => {
 
         check(
@@ -142,6 +150,76 @@ describe("expression", () => {
         );
     });
 
+    it("can compile a short-circuit && expression", () => {
+        check(
+            "1 && 2",
+            dedent(`
+                int 1
+                dup
+                bz and_end_1
+                pop
+                int 2
+                and_end_1:
+                int 0
+                !=
+            `)
+        );
+    });
+
+    it("can compile a short-circuit || expression", () => {
+        check(
+            "1 || 2",
+            dedent(`
+                int 1
+                dup
+                bnz or_end_1
+                pop
+                int 2
+                or_end_1:
+                int 0
+                !=
+            `)
+        );
+    });
+
+    for (const [operator, opcode] of [["<<", "shl"], [">>", "shr"]]) {
+        it(`can compile a ${operator} expression`, ()  => {
+            check(
+                `1 ${operator} 2`, 
+                dedent(`
+                    int 1
+                    int 2
+                    ${opcode}
+                `)
+            );    
+        });
+    }
+
+    it("can compile a conditional expression", () => {
+        check(
+            "1 ? 2 : 3",
+            dedent(`
+                int 1
+                bz cond_else_1
+                int 2
+                b cond_end_1
+                cond_else_1:
+                int 3
+                cond_end_1:
+            `)
+        );
+    });
+
+    it("can compile bitwise not operator", () => {
+        check(
+            "~ 1",
+            dedent(`
+                int 1
+                ~
+            `)
+        );
+    });
+
     it("can get txn field", () => {
         check("txn.Amount", "txn Amount");
     });
@@ -208,6 +286,42 @@ describe("expression", () => {
         );
     });
 
+    it("can compile string literal with escape sequences", () => {
+        check(
+            `"a\\"b\\n"`,
+            dedent(`
+                byte 0x6122620a
+            `)
+        );
+    });
+
+    it("can compile hex string literal", () => {
+        check(
+            'hex"deadbeef"',
+            dedent(`
+                byte 0xdeadbeef
+            `)
+        );
+    });
+
+    it("can compile base64 string literal", () => {
+        check(
+            'b64"3q2+7w=="',
+            dedent(`
+                byte base64 3q2+7w==
+            `)
+        );
+    });
+
+    it("can compile base32 string literal", () => {
+        check(
+            'b32"32W353Y="',
+            dedent(`
+                byte base32 32W353Y=
+            `)
+        );
+    });
+
     it("can call function with zero args", () => {
 
         const globalSymbolTable = new SymbolTable(1);
@@ -0,0 +1,117 @@
+import { Compiler, formatProgramLayout, getProgramLayout } from "..";
+
+describe("layout", () => {
+
+    //
+    // Compiles code and gets the layout of scratch space.
+    //
+    function layoutFor(code: string, targetVersion?: number) {
+        const compiler = new Compiler({ targetVersion });
+        const result = compiler.compile(code);
+        expect(compiler.errors).toEqual([]);
+        return getProgramLayout(result.ast, compiler.targetVersion);
+    }
+
+    const code = `
+        let total = 7;
+        const limit = total - 4;
+        {
+            let a = 1;
+        }
+        {
+            let b = 2;
+        }
+        function down(n: uint64): uint64 {
+            let x = n;
+            if (x == 0) {
+                return 0;
+            }
+            return down(x - 1) + 1;
+        }
+        return total + down(limit);
+    `;
+
+    it("reports the slot for each global variable and the slots for stack frames", () => {
+        const layout = layoutFor(code);
+
+        expect(layout.slots).toEqual([
+            { firstSlot: 0, lastSlot: 0, description: "stack pointer" },
+            { firstSlot: 1, lastSlot: 1, description: "total" },
+            { firstSlot: 2, lastSlot: 2, description: "limit (constant)" },
+            { firstSlot: 3, lastSlot: 3, description: "a, b" },
+            { firstSlot: 4, lastSlot: 254, description: "stack frames for function calls, allocated down from slot 254" },
+            { firstSlot: 255, lastSlot: 255, description: "unused" },
+        ]);
+        expect(layout.functions).toEqual([
+            { name: "down", numArgs: 1, numLocals: 1, storage: "scratch", numScratchSlots: 3 },
+        ]);
+    });
+
+    it("stack frames aren't in scratch from TEAL version 8", () => {
+        const layout = layoutFor(code, 8);
+
+        expect(layout.slots[0]).toEqual({ firstSlot: 0, lastSlot: 0, description: "unused" });
+        expect(layout.slots[layout.slots.length - 1]).toEqual({ firstSlot: 4, lastSlot: 255, description: "unused" });
+        expect(layout.functions).toEqual([
+            { name: "down", numArgs: 1, numLocals: 1, storage: "stack", numScratchSlots: 0 },
+        ]);
+    });
+
+    it("reports the fixed slots for functions that aren't recursive", () => {
+        const layout = layoutFor(`
+            let total = 1;
+            function add(a: uint64, b: uint64): uint64 {
+                return a + b;
+            }
+            function addTwice(a: uint64): uint64 {
+                let once = add(a, a);
+                return add(once, once);
+            }
+            function double(a: uint64): uint64 {
+                return a * 2;
+            }
+            return addTwice(total) + add(total, 2) + double(total);
+        `);
+
+        expect(layout.slots).toEqual([
+            { firstSlot: 0, lastSlot: 0, description: "unused" },
+            { firstSlot: 1, lastSlot: 1, description: "total" },
+            { firstSlot: 2, lastSlot: 2, description: "variables of addTwice, double" },
+            { firstSlot: 3, lastSlot: 3, description: "variables of addTwice" },
+            { firstSlot: 4, lastSlot: 4, description: "variables of add" },
+            { firstSlot: 5, lastSlot: 5, description: "variables of add" },
+            { firstSlot: 6, lastSlot: 255, description: "unused" },
+        ]);
+        expect(layout.functions).toEqual([
+            { name: "add", numArgs: 2, numLocals: 0, storage: "fixed", firstSlot: 4, numScratchSlots: 2 },
+            { name: "addTwice", numArgs: 1, numLocals: 1, storage: "fixed", firstSlot: 2, numScratchSlots: 2 },
+            { name: "double", numArgs: 1, numLocals: 0, storage: "fixed", firstSlot: 2, numScratchSlots: 1 },
+        ]);
+        expect(formatProgramLayout(layout)).toContain(`add       fixed scratch slots 4-5: 2 argument(s), 0 local variable slot(s)`);
+    });
+
+    it("the stack pointer isn't needed without functions", () => {
+        const layout = layoutFor(`let x = 1; return x;`);
+
+        expect(layout.slots).toEqual([
+            { firstSlot: 0, lastSlot: 0, description: "unused" },
+            { firstSlot: 1, lastSlot: 1, description: "x" },
+            { firstSlot: 2, lastSlot: 255, description: "unused" },
+        ]);
+        expect(layout.functions).toEqual([]);
+    });
+
+    it("can format the layout", () => {
+        expect(formatProgramLayout(layoutFor(code)).split("\n")).toEqual([
+            "Scratch slots:",
+            "    0         stack pointer",
+            "    1         total",
+            "    2         limit (constant)",
+            "    3         a, b",
+            "    4-254     stack frames for function calls, allocated down from slot 254",
+            "    255       unused",
+            "Functions:",
+            "    down      3 scratch slots per call: previous stack pointer, 1 argument(s), 1 local variable slot(s)",
+        ]);
+    });
+});
@@ -0,0 +1,387 @@
+//
+// A small simulator of the AVM stack for the TEAL code the compiler generates,
+// including the stack frame opcodes from TEAL version 8 that the teal-interpreter package doesn't support.
+//
+// Programs are checked more strictly than the AVM does:
+// the stack must have exactly one value when the program returns.
+//
+
+//
+// The most values the AVM allows on the stack.
+//
+const MAX_STACK_HEIGHT = 1000;
+
+//
+// The most instructions executed before the program is assumed to be stuck in a loop.
+//
+const MAX_STEPS = 100000;
+
+//
+// A value on the stack, bytes have one character per byte.
+//
+export type StackValue = bigint | string;
+
+//
+// The result of executing a program.
+//
+export interface IExecutionResult {
+    //
+    // The value the program returned.
+    //
+    result: StackValue;
+
+    //
+    // The most values that were on the stack at once.
+    //
+    maxStackHeight: number;
+
+    //
+    // The most subroutine calls that were in progress at once.
+    //
+    maxCallDepth: number;
+}
+
+//
+// A subroutine call in progress.
+//
+interface IFrame {
+    //
+    // The instruction to continue from when the subroutine returns.
+    //
+    returnAddress: number;
+
+    //
+    // The height of the stack when the subroutine was called, set by proto.
+    //
+    framePointer?: number;
+
+    //
+    // The number of arguments and return values, set by proto.
+    //
+    numArgs?: number;
+    numReturns?: number;
+}
+
+//
+// Operators that take two uint64 values and push one.
+//
+const BINARY_OPERATORS: { [opcode: string]: ((a: bigint, b: bigint) => bigint) | undefined } = {
+    "+": (a, b) => a + b,
+    "-": (a, b) => {
+        if (b > a) {
+            throw new Error(`Underflow.`);
+        }
+        return a - b;
+    },
+    "*": (a, b) => a * b,
+    "/": (a, b) => {
+        if (b === BigInt(0)) {
+            throw new Error(`Division by zero.`);
+        }
+        return a / b;
+    },
+    "%": (a, b) => {
+        if (b === BigInt(0)) {
+            throw new Error(`Division by zero.`);
+        }
+        return a % b;
+    },
+    "<": (a, b) => BigInt(a < b ? 1 : 0),
+    "<=": (a, b) => BigInt(a <= b ? 1 : 0),
+    ">": (a, b) => BigInt(a > b ? 1 : 0),
+    ">=": (a, b) => BigInt(a >= b ? 1 : 0),
+    "&&": (a, b) => BigInt(a !== BigInt(0) && b !== BigInt(0) ? 1 : 0),
+    "||": (a, b) => BigInt(a !== BigInt(0) || b !== BigInt(0) ? 1 : 0),
+};
+
+//
+// Parses the operand of a byte instruction, which is a quoted string without escapes in the generated code.
+//
+function parseBytes(operand: string): string {
+    if (!operand.startsWith(`"`) || !operand.endsWith(`"`)) {
+        throw new Error(`Unsupported byte constant ${operand}.`);
+    }
+
+    return operand.slice(1, -1);
+}
+
+//
+// Executes TEAL code, throwing an error when the program fails or leaves the wrong number of values on the stack.
+//
+export function execute(tealCode: string): IExecutionResult {
+    const lines = tealCode.split(/\r?\n/).map(line => line.trim());
+    const labels = new Map<string, number>();
+    lines.forEach((line, index) => {
+        if (line.endsWith(":")) {
+            labels.set(line.slice(0, -1), index);
+        }
+    });
+
+    const stack: StackValue[] = [];
+    const scratch = new Map<number, StackValue>();
+    const frames: IFrame[] = [];
+    let maxStackHeight = 0;
+    let maxCallDepth = 0;
+
+    function push(value: StackValue): void {
+        stack.push(value);
+        if (stack.length > MAX_STACK_HEIGHT) {
+            throw new Error(`Stack overflow.`);
+        }
+        maxStackHeight = Math.max(maxStackHeight, stack.length);
+    }
+
+    function pop(): StackValue {
+        if (stack.length === 0) {
+            throw new Error(`Stack underflow.`);
+        }
+        return stack.pop()!;
+    }
+
+    function popUint64(): bigint {
+        const value = pop();
+        if (typeof value !== "bigint") {
+            throw new Error(`Expected a uint64, found bytes.`);
+        }
+        return value;
+    }
+
+    function jump(label: string): number {
+        const target = labels.get(label);
+        if (target === undefined) {
+            throw new Error(`Label ${label} isn't defined.`);
+        }
+        return target;
+    }
+
+    //
+    // Gets the index in the stack of a position in the current stack frame.
+    //
+    function framePosition(operand: string): number {
+        const frame = frames[frames.length - 1];
+        if (!frame || frame.framePointer === undefined) {
+            throw new Error(`Stack frame opcodes can only be used after proto.`);
+        }
+
+        const index = frame.framePointer + Number(operand);
+        if (index < frame.framePointer - frame.numArgs! || index >= stack.length) {
+            throw new Error(`Position ${operand} is outside the stack frame.`);
+        }
+        return index;
+    }
+
+    let pc = 0;
+    for (let step = 0; step < MAX_STEPS; step++) {
+        if (pc >= lines.length) {
+            throw new Error(`The program ended without returning.`);
+        }
+
+        const line = lines[pc];
+        pc += 1;
+        if (line.length === 0 || line.endsWith(":") || line.startsWith("#pragma") || line.startsWith("//")) {
+            continue;
+        }
+
+        const [ opcode, ...operands ] = line.split(/\s+/);
+        try {
+            const operator = BINARY_OPERATORS[opcode];
+            if (operator) {
+                const b = popUint64();
+                const a = popUint64();
+                push(operator(a, b));
+                continue;
+            }
+
+            switch (opcode) {
+                case "int":
+                    push(BigInt(operands[0]));
+                    break;
+
+                case "byte":
+                    push(parseBytes(line.slice(line.indexOf(" ") + 1)));
+                    break;
+
+                case "==":
+                case "!=": {
+                    const b = pop();
+                    const a = pop();
+                    if (typeof a !== typeof b) {
+                        throw new Error(`Can't compare a uint64 with bytes.`);
+                    }
+                    push(BigInt((a === b) === (opcode === "==") ? 1 : 0));
+                    break;
+                }
+
+                case "!":
+                    push(BigInt(popUint64() === BigInt(0) ? 1 : 0));
+                    break;
+
+                case "store":
+                    scratch.set(Number(operands[0]), pop());
+                    break;
+
+                case "load": {
+                    const value = scratch.get(Number(operands[0]));
+                    push(value !== undefined ? value : BigInt(0));
+                    break;
+                }
+
+                case "dup": {
+                    const value = pop();
+                    push(value);
+                    push(value);
+                    break;
+                }
+
+                case "dupn": {
+                    const value = pop();
+                    push(value);
+                    for (let i = 0; i < Number(operands[0]); i++) {
+                        push(value);
+                    }
+                    break;
+                }
+
+                case "dig": {
+                    const depth = Number(operands[0]);
+                    if (depth >= stack.length) {
+                        throw new Error(`Stack underflow.`);
+                    }
+                    push(stack[stack.length - 1 - depth]);
+                    break;
+                }
+
+                case "swap": {
+                    const b = pop();
+                    const a = pop();
+                    push(b);
+                    push(a);
+                    break;
+                }
+
+                case "pop":
+                    pop();
+                    break;
+
+                case "popn":
+                    for (let i = 0; i < Number(operands[0]); i++) {
+                        pop();
+                    }
+                    break;
+
+                case "assert":
+                    if (popUint64() === BigInt(0)) {
+                        throw new Error(`Assertion failed.`);
+                    }
+                    break;
+
+                case "err":
+                    throw new Error(`The program failed with err.`);
+
+                case "b":
+                    pc = jump(operands[0]);
+                    break;
+
+                case "bz":
+                    if (popUint64() === BigInt(0)) {
+                        pc = jump(operands[0]);
+                    }
+                    break;
+
+                case "bnz":
+                    if (popUint64() !== BigInt(0)) {
+                        pc = jump(operands[0]);
+                    }
+                    break;
+
+                case "switch": {
+                    const index = Number(popUint64());
+                    if (index < operands.length) {
+                        pc = jump(operands[index]);
+                    }
+                    break;
+                }
+
+                case "match": {
+                    //
+                    // The value to match is on top of the values for each label.
+                    //
+                    const value = pop();
+                    const caseValues = operands.map(() => pop()).reverse();
+                    const index = caseValues.findIndex(caseValue => caseValue === value);
+                    if (index >= 0) {
+                        pc = jump(operands[index]);
+                    }
+                    break;
+                }
+
+                case "callsub":
+                    frames.push({ returnAddress: pc });
+                    maxCallDepth = Math.max(maxCallDepth, frames.length);
+                    pc = jump(operands[0]);
+                    break;
+
+                case "proto": {
+                    const frame = frames[frames.length - 1];
+                    if (!frame) {
+                        throw new Error(`proto can only be used in a subroutine.`);
+                    }
+                    frame.numArgs = Number(operands[0]);
+                    frame.numReturns = Number(operands[1]);
+                    frame.framePointer = stack.length;
+                    if (frame.numArgs > stack.length) {
+                        throw new Error(`Stack underflow.`);
+                    }
+                    break;
+                }
+
+                case "frame_dig":
+                    push(stack[framePosition(operands[0])]);
+                    break;
+
+                case "frame_bury": {
+                    const value = pop();
+                    stack[framePosition(operands[0])] = value;
+                    break;
+                }
+
+                case "retsub": {
+                    const frame = frames.pop();
+                    if (!frame) {
+                        throw new Error(`retsub without callsub.`);
+                    }
+
+                    if (frame.framePointer !== undefined) {
+                        //
+                        // The return values replace the arguments and everything else in the stack frame.
+                        //
+                        const numReturns = frame.numReturns!;
+                        if (stack.length < frame.framePointer + numReturns) {
+                            throw new Error(`Expected ${numReturns} return values in the stack frame.`);
+                        }
+                        const returnValues = stack.splice(stack.length - numReturns, numReturns);
+                        stack.length = frame.framePointer - frame.numArgs!;
+                        returnValues.forEach(push);
+                    }
+
+                    pc = frame.returnAddress;
+                    break;
+                }
+
+                case "return":
+                    if (stack.length !== 1) {
+                        throw new Error(`Expected one value on the stack when the program returns, found ${stack.length}.`);
+                    }
+                    return { result: stack[0], maxStackHeight, maxCallDepth };
+
+                default:
+                    throw new Error(`Unsupported opcode ${opcode}.`);
+            }
+        }
+        catch (err: any) {
+            throw new Error(`Line ${pc}: ${line}: ${err.message}`);
+        }
+    }
+
+    throw new Error(`The program didn't return after ${MAX_STEPS} steps.`);
+}
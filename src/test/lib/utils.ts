@@ -21,4 +21,29 @@ export function expectArray(actual: any[], expected: any[]): void {
     for (let i = 0; i < actual.length; ++i) {
         expectFields(actual[i], expected[i]);
     }
-}
\ No newline at end of file
+}
+//
+// The fields that record the location of an AST node (or the parameters of a function) in the source code.
+//
+const LOCATION_FIELDS = [ "line", "column", "offset", "endLine", "endColumn", "endOffset", "paramNodes" ];
+
+//
+// Removes locations from an AST so it can be compared without them.
+//
+export function stripLocations<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map(item => stripLocations(item)) as any;
+    }
+
+    if (value !== null && typeof value === "object") {
+        const stripped: any = {};
+        for (const [key, fieldValue] of Object.entries(value)) {
+            if (!LOCATION_FIELDS.includes(key)) {
+                stripped[key] = stripLocations(fieldValue);
+            }
+        }
+        return stripped;
+    }
+
+    return value;
+}
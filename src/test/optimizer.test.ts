@@ -0,0 +1,107 @@
+import { compile } from "..";
+import { CodeEmitter } from "../code-emitter";
+
+describe("optimizer", () => {
+
+    //
+    // Emits instructions, each with the number of items it adds and removes, and optimizes them.
+    //
+    function optimize(instructions: [string, number, number][], tealVersion?: number): string[] {
+        const codeEmitter = new CodeEmitter(false, tealVersion);
+        for (const [ code, numItemsAdded, numItemsRemoved ] of instructions) {
+            codeEmitter.add(code, numItemsAdded, numItemsRemoved);
+        }
+        codeEmitter.optimize();
+        return codeEmitter.getOutput();
+    }
+
+    it("removes the dup before a store that is followed by a pop", () => {
+        expect(optimize([
+            [ `int 1`, 1, 0 ],
+            [ `dup`, 1, 0 ],
+            [ `store 1`, 0, 1 ],
+            [ `pop`, 0, 1 ],
+        ])).toEqual([ `int 1`, `store 1` ]);
+    });
+
+    it("removes the dup before a frame_bury that is followed by a pop", () => {
+        expect(optimize([
+            [ `int 1`, 1, 0 ],
+            [ `dup`, 1, 0 ],
+            [ `frame_bury 0`, 0, 1 ],
+            [ `pop`, 0, 1 ],
+        ], 8)).toEqual([ `int 1`, `frame_bury 0` ]);
+    });
+
+    it("keeps the dup when the stored value is used", () => {
+        const instructions: [string, number, number][] = [
+            [ `int 1`, 1, 0 ],
+            [ `dup`, 1, 0 ],
+            [ `store 1`, 0, 1 ],
+            [ `return`, 0, 1 ],
+        ];
+        expect(optimize(instructions)).toEqual(instructions.map(([ code ]) => code));
+    });
+
+    it("removes a value that is pushed and then popped", () => {
+        expect(optimize([
+            [ `load 1`, 1, 0 ],
+            [ `int 0`, 1, 0 ],
+            [ `pop`, 0, 1 ],
+            [ `pop`, 0, 1 ],
+            [ `int 1`, 1, 0 ],
+        ])).toEqual([ `int 1` ]);
+    });
+
+    it("reduces the number of items removed by popn", () => {
+        expect(optimize([
+            [ `txn Fee`, 1, 0 ],
+            [ `txn Fee`, 1, 0 ],
+            [ `int 0`, 1, 0 ],
+            [ `popn 3`, 0, 3 ],
+        ], 8)).toEqual([ `txn Fee`, `txn Fee`, `popn 2` ]);
+
+        expect(optimize([
+            [ `txn Fee`, 1, 0 ],
+            [ `int 0`, 1, 0 ],
+            [ `popn 2`, 0, 2 ],
+        ], 8)).toEqual([ `txn Fee`, `pop` ]);
+    });
+
+    it("doesn't remove a value with side effects", () => {
+        expect(optimize([
+            [ `callsub f`, 1, 0 ],
+            [ `pop`, 0, 1 ],
+        ])).toEqual([ `callsub f`, `pop` ]);
+    });
+
+    it("removes a branch to the next label", () => {
+        expect(optimize([
+            [ `b end_1`, 0, 0 ],
+            [ ``, 0, 0 ],
+            [ `else_1:`, 0, 0 ],
+            [ `end_1:`, 0, 0 ],
+        ])).toEqual([ ``, `else_1:`, `end_1:` ]);
+    });
+
+    it("removes code that can't be reached", () => {
+        expect(optimize([
+            [ `int 1`, 1, 0 ],
+            [ `retsub`, 0, 0 ],
+            [ `retsub`, 0, 0 ],
+            [ `int 2`, 1, 0 ],
+            [ `f-cleanup:`, 0, 0 ],
+            [ `retsub`, 0, 0 ],
+        ])).toEqual([ `int 1`, `retsub`, `f-cleanup:`, `retsub` ]);
+    });
+
+    it("is disabled by default", () => {
+        const code = `let x = 1;\nreturn x;`;
+        const output = compile(code)!;
+        const optimized = compile(code, { optimize: true })!;
+
+        expect(output).toContain(`dup\r\nstore 1\r\npop`);
+        expect(optimized).not.toContain(`dup`);
+        expect(optimized).toContain(`int 1\r\nstore 1\r\nload 1\r\nreturn`);
+    });
+});
@@ -1,6 +1,7 @@
 import { ASTNode } from "../ast";
 import { IError } from "../error";
 import { parseExpression } from "../parser";
+import { stripLocations } from "./lib/utils";
 
 describe("parser", () => {
 
@@ -19,14 +20,14 @@ describe("parser", () => {
             throw new Error(`Got errors during parsing:\n${errors.map(err => err.message).join('\n')}`);
         }
 
-        return ast;
+        return stripLocations(ast);
     }
 
     test("can parse number expression", () => {
 
         expect(parseExpressionOk("12")).toEqual({
             nodeType: "number",
-            value: 12,
+            value: BigInt(12),
         });
     });
 
@@ -38,11 +39,11 @@ describe("parser", () => {
             children: [
                 { 
                     nodeType: 'number', 
-                    value: 1 
+                    value: BigInt(1) 
                 },
                 { 
                     nodeType: 'number', 
-                    value: 2 
+                    value: BigInt(2) 
                 }
             ]
         });
@@ -56,11 +57,11 @@ describe("parser", () => {
             children: [
                 {
                     nodeType: "number",
-                    value: 1,
+                    value: BigInt(1),
                 },
                 {
                     nodeType: "number",
-                    value: 2,
+                    value: BigInt(2),
                 }
             ],
         });
@@ -78,17 +79,17 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         },
                         {
                             "nodeType": "number",
-                            "value": 2,
+                            "value": BigInt(2),
                         }
                     ]
                 },
                 {
                     "nodeType": "number",
-                    "value": 3,
+                    "value": BigInt(3),
                 }
             ]
         });
@@ -102,11 +103,11 @@ describe("parser", () => {
             children: [
                 {
                     nodeType: "number",
-                    value: 1,
+                    value: BigInt(1),
                 },
                 {
                     nodeType: "number",
-                    value: 2,
+                    value: BigInt(2),
                 }
             ],
         });
@@ -125,17 +126,17 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         },
                         {
                             "nodeType": "number",
-                            "value": 2,
+                            "value": BigInt(2),
                         }
                     ]
                 },
                 {
                     "nodeType": "number",
-                    "value": 3,
+                    "value": BigInt(3),
                 }
             ]
         });
@@ -156,7 +157,7 @@ describe("parser", () => {
         expect(ast).toEqual({
             "nodeType": "function-call",
             "value": "foo",
-            "functionArgs": []
+            "functionArgs": [],
         });
     });
 
@@ -169,17 +170,17 @@ describe("parser", () => {
             "functionArgs": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 },
                 {
                     "nodeType": "number",
-                    "value": 3,
+                    "value": BigInt(3),
                 }
-            ]
+            ],
         });
     });
 
@@ -188,7 +189,7 @@ describe("parser", () => {
         const ast = parseExpressionOk("(1)");
         expect(ast).toEqual({
             "nodeType": "number",
-            "value": 1,
+            "value": BigInt(1),
         });
     });
 
@@ -205,7 +206,119 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 3,
+                    "value": BigInt(3),
+                }
+            ]
+        });
+    });
+
+    test("can parse compound assignment expression", () => {
+
+        const ast = parseExpressionOk("x *= 3");
+        expect(ast).toEqual({
+            "nodeType": "assignment",
+            "checkConstantAssignment": true,
+            "assignee": {
+                "nodeType": "identifier",
+                "value": "x"
+            },
+            "children": [
+                {
+                    "nodeType": "operation",
+                    "opcode": "*",
+                    "children": [
+                        {
+                            "nodeType": "identifier",
+                            "value": "x"
+                        },
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(3),
+                        }
+                    ]
+                }
+            ]
+        });
+    });
+
+    test("compound assignment reads a copy of the assignee", () => {
+
+        const ast = parseExpressionOk("x += 3");
+        expect(ast.children![0].children![0]).not.toBe(ast.assignee);
+    });
+
+    for (const [operator, opcode] of [["+=", "+"], ["-=", "-"], ["*=", "*"], ["/=", "/"], ["%=", "%"]]) {
+        test(`can parse ${operator} expression`, () => {
+
+            const ast = parseExpressionOk(`x ${operator} 3`);
+            expect(ast.nodeType).toEqual("assignment");
+            expect(ast.children![0].opcode).toEqual(opcode);
+        });
+    }
+
+    test("can parse prefix increment expression", () => {
+
+        const ast = parseExpressionOk("++x");
+        expect(ast).toEqual({
+            "nodeType": "assignment",
+            "checkConstantAssignment": true,
+            "assignee": {
+                "nodeType": "identifier",
+                "value": "x"
+            },
+            "children": [
+                {
+                    "nodeType": "operation",
+                    "opcode": "+",
+                    "children": [
+                        {
+                            "nodeType": "identifier",
+                            "value": "x"
+                        },
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(1),
+                        }
+                    ]
+                }
+            ]
+        });
+    });
+
+    test("can parse postfix decrement expression", () => {
+
+        const ast = parseExpressionOk("x--");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "+",
+            "children": [
+                {
+                    "nodeType": "assignment",
+                    "checkConstantAssignment": true,
+                    "assignee": {
+                        "nodeType": "identifier",
+                        "value": "x"
+                    },
+                    "children": [
+                        {
+                            "nodeType": "operation",
+                            "opcode": "-",
+                            "children": [
+                                {
+                                    "nodeType": "identifier",
+                                    "value": "x"
+                                },
+                                {
+                                    "nodeType": "number",
+                                    "value": BigInt(1),
+                                }
+                            ]
+                        }
+                    ]
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
                 }
             ]
         });
@@ -220,11 +333,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -239,11 +352,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -258,11 +371,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -277,11 +390,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -296,11 +409,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -315,11 +428,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -334,11 +447,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -353,11 +466,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -372,11 +485,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -391,11 +504,11 @@ describe("parser", () => {
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
                 },
                 {
                     "nodeType": "number",
-                    "value": 2,
+                    "value": BigInt(2),
                 }
             ]
         });
@@ -407,10 +520,231 @@ describe("parser", () => {
         expect(ast).toEqual({
             "nodeType": "operation",
             "opcode": "!",
+            "numItemsAdded": 1,
+            "numItemsRemoved": 1,
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                }
+            ]
+        });
+    });
+
+    test("can parse modulo expression", () => {
+
+        const ast = parseExpressionOk("1 % 2");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "%",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                }
+            ]
+        });
+    });
+
+    test("can parse bitwise and expression", () => {
+
+        const ast = parseExpressionOk("1 & 2");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "&",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                }
+            ]
+        });
+    });
+
+    test("can parse bitwise or expression", () => {
+
+        const ast = parseExpressionOk("1 | 2");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "|",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                }
+            ]
+        });
+    });
+
+    test("can parse bitwise xor expression", () => {
+
+        const ast = parseExpressionOk("1 ^ 2");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "^",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                }
+            ]
+        });
+    });
+
+    test("can parse shift left expression", () => {
+
+        const ast = parseExpressionOk("1 << 2");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "shl",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                }
+            ]
+        });
+    });
+
+    test("can parse shift right expression", () => {
+
+        const ast = parseExpressionOk("1 >> 2");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "shr",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                }
+            ]
+        });
+    });
+
+    test("can parse bitwise not expression", () => {
+
+        const ast = parseExpressionOk("~1");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "~",
+            "numItemsAdded": 1,
+            "numItemsRemoved": 1,
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                }
+            ]
+        });
+    });
+
+    test("shift binds tighter than comparison and looser than addition", () => {
+
+        const ast = parseExpressionOk("1 << 2 + 3 < 4");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "<",
+            "children": [
+                {
+                    "nodeType": "operation",
+                    "opcode": "shl",
+                    "children": [
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(1),
+                        },
+                        {
+                            "nodeType": "operation",
+                            "opcode": "+",
+                            "children": [
+                                {
+                                    "nodeType": "number",
+                                    "value": BigInt(2),
+                                },
+                                {
+                                    "nodeType": "number",
+                                    "value": BigInt(3),
+                                }
+                            ]
+                        }
+                    ]
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(4),
+                }
+            ]
+        });
+    });
+
+    test("bitwise operators bind in C order and looser than equality", () => {
+
+        const ast = parseExpressionOk("1 | 2 ^ 3 & 4 == 5");
+        expect(ast).toEqual({
+            "nodeType": "operation",
+            "opcode": "|",
             "children": [
                 {
                     "nodeType": "number",
-                    "value": 1,
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "operation",
+                    "opcode": "^",
+                    "children": [
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(2),
+                        },
+                        {
+                            "nodeType": "operation",
+                            "opcode": "&",
+                            "children": [
+                                {
+                                    "nodeType": "number",
+                                    "value": BigInt(3),
+                                },
+                                {
+                                    "nodeType": "operation",
+                                    "opcode": "==",
+                                    "children": [
+                                        {
+                                            "nodeType": "number",
+                                            "value": BigInt(4),
+                                        },
+                                        {
+                                            "nodeType": "number",
+                                            "value": BigInt(5),
+                                        }
+                                    ]
+                                }
+                            ]
+                        }
+                    ]
                 }
             ]
         });
@@ -438,7 +772,7 @@ describe("parser", () => {
             "numItemsRemoved": 0,
             "args": [
                 "Foo",
-                1
+                BigInt(1)
             ]
         });
     });
@@ -451,7 +785,7 @@ describe("parser", () => {
             "numItemsAdded": 1,
             "numItemsRemoved": 0,
             "args": [
-                1,
+                BigInt(1),
                 "Foo"
             ]
         });
@@ -465,9 +799,9 @@ describe("parser", () => {
             "numItemsAdded": 1,
             "numItemsRemoved": 0,
             "args": [
-                1,
+                BigInt(1),
                 "Foo",
-                2
+                BigInt(2)
             ]
         });
     });
@@ -480,7 +814,7 @@ describe("parser", () => {
             "numItemsAdded": 1,
             "numItemsRemoved": 0,
             "args": [
-                1
+                BigInt(1)
             ]
         });
     });
@@ -545,4 +879,49 @@ describe("parser", () => {
         });
     });
 
-});
\ No newline at end of file
+    test("can parse a prefixed string literal expression", () => {
+
+        const ast = parseExpressionOk(`hex"ab"`);
+        expect(ast).toEqual({
+            "nodeType": "string-literal",
+            "value": "ab",
+            "encoding": "hex",
+        });
+    });
+
+    test("can parse conditional expression", () => {
+
+        const ast = parseExpressionOk("1 ? 2 : 3");
+        expect(ast).toEqual({
+            "nodeType": "conditional-expression",
+            "children": [
+                {
+                    "nodeType": "number",
+                    "value": BigInt(1),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(2),
+                },
+                {
+                    "nodeType": "number",
+                    "value": BigInt(3),
+                },
+            ],
+        });
+    });
+
+    test("conditional expression is right associative", () => {
+
+        const ast = parseExpressionOk("1 ? 2 : 3 ? 4 : 5");
+        expect(ast.nodeType).toEqual("conditional-expression");
+        expect(ast.children![2].nodeType).toEqual("conditional-expression");
+    });
+
+    test("conditional expression has lower precedence than logical expression", () => {
+
+        const ast = parseExpressionOk("1 || 2 ? 3 : 4");
+        expect(ast.nodeType).toEqual("conditional-expression");
+        expect(ast.children![0].opcode).toEqual("||");
+    });
+});
@@ -2,7 +2,7 @@ import { ASTNode } from "../ast";
 import { IError } from "../error";
 import { parse } from "../parser";
 import { SymbolType } from "../symbol";
-import { expectArray } from "./lib/utils";
+import { expectArray, stripLocations } from "./lib/utils";
 
 describe("parser", () => {
 
@@ -21,7 +21,7 @@ describe("parser", () => {
             throw new Error(`Got errors during parsing:\n${errors.map(err => err.message).join('\n')}`);
         }
 
-        return ast;
+        return stripLocations(ast);
     }
 
     //
@@ -49,7 +49,7 @@ describe("parser", () => {
                     children: [
                         {
                             nodeType: "number",
-                            value: 1,
+                            value: BigInt(1),
                         }
                     ]
                 }
@@ -70,7 +70,7 @@ describe("parser", () => {
     test("erroneous statement is omitted", () => {
 
         const ast = parse("1", () => {});
-        expect(ast).toEqual({
+        expect(stripLocations(ast)).toEqual({
             nodeType: "block-statement",
             children: [] // No children, the broken statement is omitted.
         });
@@ -112,7 +112,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ]
                 },
@@ -121,7 +121,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 2,
+                            "value": BigInt(2),
                         }
                     ]
                 }
@@ -132,7 +132,7 @@ describe("parser", () => {
     test("error causes resync to next statement", () => {
 
         const ast = parse("=;2;", () => {});
-        expect(ast).toEqual({
+        expect(stripLocations(ast)).toEqual({
             "nodeType": "block-statement",
             "children": [
                 {
@@ -140,7 +140,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 2,
+                            "value": BigInt(2),
                         }
                     ]
                 }
@@ -171,7 +171,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 3,
+                                "value": BigInt(3),
                             }
                         ]
                     }
@@ -203,7 +203,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 3,
+                                "value": BigInt(3),
                             }
                         ]
                     }
@@ -212,6 +212,44 @@ describe("parser", () => {
         });
     });
 
+    test("can declare a variable with a type", () => {
+
+        const ast = parseOk("let a: uint64;");
+        expect(ast).toEqual({
+            "nodeType": "block-statement",
+            "children": [
+                {
+                    "nodeType": "declare-variable",
+                    "assignee": {
+                        "nodeType": "identifier",
+                        "value": "a",
+                    },
+                    "symbolType": 0,
+                    "declaredType": { "type": "uint64" },
+                }
+            ]
+        });
+    });
+
+    test("can declare a constant with a type", () => {
+
+        const ast = parseOk(`const k: byte[] = "abc";`);
+        expect(ast.children![0].declaredType).toEqual({ "type": "byte[]" });
+        expect(ast.children![0].initializer!.children![0].value).toEqual("abc");
+    });
+
+    test("can declare a tuple with a type", () => {
+
+        const ast = parseOk("let (a, b): (uint64, byte[]);");
+        expect(ast.children![0].declaredType).toEqual({
+            "type": "tuple",
+            "children": [
+                { "type": "uint64" },
+                { "type": "byte[]" },
+            ],
+        });
+    });
+
     test("can declare an uninitialised tuple", () => {
 
         const ast = parseOk("let (a, b);");
@@ -283,11 +321,11 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 1
+                                        "value": BigInt(1)
                                     },
                                     {
                                         "nodeType": "number",
-                                        "value": 2
+                                        "value": BigInt(2)
                                     }
                                 ]
                             }
@@ -342,11 +380,11 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 1
+                                        "value": BigInt(1)
                                     },
                                     {
                                         "nodeType": "number",
-                                        "value": 2
+                                        "value": BigInt(2)
                                     }
                                 ]
                             }
@@ -386,7 +424,7 @@ describe("parser", () => {
                             "children": [
                                 {
                                     "nodeType": "number",
-                                    "value": 1,
+                                    "value": BigInt(1),
                                 }
                             ]
                         }
@@ -425,6 +463,7 @@ describe("parser", () => {
                     "nodeType": "function-declaration",
                     "value": "test",
                     "params": [],
+                    "paramTypes": [],
                     "returnType": { "type": "void" },
                     "body": {
                         "nodeType": "block-statement",
@@ -445,6 +484,7 @@ describe("parser", () => {
                     "nodeType": "function-declaration",
                     "value": "test",
                     "params": [],
+                    "paramTypes": [],
                     "returnType": { "type": "uint64" },
                     "body": {
                         "nodeType": "block-statement",
@@ -465,6 +505,7 @@ describe("parser", () => {
                     "nodeType": "function-declaration",
                     "value": "test",
                     "params": [],
+                    "paramTypes": [],
                     "returnType": { "type": "byte[]" },
                     "body": {
                         "nodeType": "block-statement",
@@ -485,6 +526,7 @@ describe("parser", () => {
                     "nodeType": "function-declaration",
                     "value": "test",
                     "params": [],
+                    "paramTypes": [],
                     "returnType": {
                         "type": "tuple",
                         "children": [
@@ -515,6 +557,7 @@ describe("parser", () => {
                     "nodeType": "function-declaration",
                     "value": "test",
                     "params": ["a", "b", "c"],
+                    "paramTypes": [undefined, undefined, undefined],
                     "returnType": { "type": "void" },
                     "body": {
                         "nodeType": "block-statement",
@@ -525,6 +568,17 @@ describe("parser", () => {
         });
     });
 
+    test("can declare a function with typed parameters", () => {
+
+        const ast = parseOk("function f(a: uint64, b, c: byte[]): uint64 { return a; }");
+        expect(ast.children![0].params).toEqual(["a", "b", "c"]);
+        expect(ast.children![0].paramTypes).toEqual([
+            { "type": "uint64" },
+            undefined,
+            { "type": "byte[]" },
+        ]);
+    });
+
     test("a function can contain statements", () => {
 
         const ast = parseOk("function test (): void {\n1;\n}");
@@ -535,6 +589,7 @@ describe("parser", () => {
                     "nodeType": "function-declaration",
                     "value": "test",
                     "params": [],
+                    "paramTypes": [],
                     "returnType": { "type": "void" },
                     "body": {
                         "nodeType": "block-statement",
@@ -544,7 +599,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 1,
+                                        "value": BigInt(1),
                                     }
                                 ]
                             }
@@ -579,7 +634,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ]
                 }
@@ -598,7 +653,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "ifBlock": {
@@ -609,7 +664,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 2,
+                                        "value": BigInt(2),
                                     }
                                 ]
                             }
@@ -632,7 +687,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "ifBlock": {
@@ -640,7 +695,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 2,
+                                "value": BigInt(2),
                             }
                         ]
                     }
@@ -661,7 +716,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "ifBlock": {
@@ -672,7 +727,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 2,
+                                        "value": BigInt(2),
                                     }
                                 ]
                             }
@@ -686,7 +741,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 3,
+                                        "value": BigInt(3),
                                     }
                                 ]
                             }
@@ -708,7 +763,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "ifBlock": {
@@ -716,7 +771,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 2,
+                                "value": BigInt(2),
                             }
                         ]
                     },
@@ -725,7 +780,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 3,
+                                "value": BigInt(3),
                             }
                         ]
                     }
@@ -746,7 +801,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "ifBlock": {
@@ -757,7 +812,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 2,
+                                        "value": BigInt(2),
                                     }
                                 ]
                             }
@@ -768,7 +823,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 3,
+                                "value": BigInt(3),
                             }
                         ],
                         "ifBlock": {
@@ -779,7 +834,7 @@ describe("parser", () => {
                                     "children": [
                                         {
                                             "nodeType": "number",
-                                            "value": 4,
+                                            "value": BigInt(4),
                                         }
                                     ]
                                 }
@@ -802,7 +857,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "body": {
@@ -813,7 +868,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 2,
+                                        "value": BigInt(2),
                                     }
                                 ]
                             }
@@ -835,7 +890,7 @@ describe("parser", () => {
                     "children": [
                         {
                             "nodeType": "number",
-                            "value": 1,
+                            "value": BigInt(1),
                         }
                     ],
                     "body": {
@@ -843,7 +898,7 @@ describe("parser", () => {
                         "children": [
                             {
                                 "nodeType": "number",
-                                "value": 2,
+                                "value": BigInt(2),
                             }
                         ]
                     }
@@ -866,7 +921,7 @@ describe("parser", () => {
                             "children": [
                                 {
                                     "nodeType": "number",
-                                    "value": 1,
+                                    "value": BigInt(1),
                                 }
                             ]
                         },
@@ -875,36 +930,31 @@ describe("parser", () => {
                             "children": [
                                 {
                                     "nodeType": "number",
-                                    "value": 2,
+                                    "value": BigInt(2),
                                 }
                             ],
                             "body": {
                                 "nodeType": "block-statement",
                                 "children": [
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": [
-                                            {
-                                                "nodeType": "expr-statement",
-                                                "children": [
-                                                    {
-                                                        "nodeType": "number",
-                                                        "value": 4,
-                                                    }
-                                                ]
-                                            }
-                                        ]
-                                    },
                                     {
                                         "nodeType": "expr-statement",
                                         "children": [
                                             {
                                                 "nodeType": "number",
-                                                "value": 3,
+                                                "value": BigInt(4),
                                             }
                                         ]
                                     }
                                 ]
+                            },
+                            "increment": {
+                                "nodeType": "expr-statement",
+                                "children": [
+                                    {
+                                        "nodeType": "number",
+                                        "value": BigInt(3),
+                                    }
+                                ]
                             }
                         }
                     ]
@@ -933,22 +983,13 @@ describe("parser", () => {
                                 "nodeType": "block-statement",
                                 "children": [
                                     {
-                                        "nodeType": "block-statement",
+                                        "nodeType": "expr-statement",
                                         "children": [
                                             {
-                                                "nodeType": "expr-statement",
-                                                "children": [
-                                                    {
-                                                        "nodeType": "number",
-                                                        "value": 4,
-                                                    }
-                                                ]
+                                                "nodeType": "number",
+                                                "value": BigInt(4),
                                             }
                                         ]
-                                    },
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": []
                                     }
                                 ]
                             }
@@ -976,20 +1017,11 @@ describe("parser", () => {
                             "nodeType": "while-statement",
                             "children": [],
                             "body": {
-                                "nodeType": "block-statement",
+                                "nodeType": "expr-statement",
                                 "children": [
                                     {
-                                        "nodeType": "expr-statement",
-                                        "children": [
-                                            {
-                                                "nodeType": "number",
-                                                "value": 4,
-                                            }
-                                        ]
-                                    },
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": []
+                                        "nodeType": "number",
+                                        "value": BigInt(4),
                                     }
                                 ]
                             }
@@ -1026,7 +1058,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 3,
+                                        "value": BigInt(3),
                                     }
                                 ]
                             }
@@ -1036,16 +1068,7 @@ describe("parser", () => {
                             "children": [],
                             "body": {
                                 "nodeType": "block-statement",
-                                "children": [
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": []
-                                    },
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": []
-                                    }
-                                ]
+                                "children": []
                             }
                         }
                     ]
@@ -1080,7 +1103,7 @@ describe("parser", () => {
                                 "children": [
                                     {
                                         "nodeType": "number",
-                                        "value": 3,
+                                        "value": BigInt(3),
                                     }
                                 ]
                             }
@@ -1090,16 +1113,7 @@ describe("parser", () => {
                             "children": [],
                             "body": {
                                 "nodeType": "block-statement",
-                                "children": [
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": []
-                                    },
-                                    {
-                                        "nodeType": "block-statement",
-                                        "children": []
-                                    }
-                                ]
+                                "children": []
                             }
                         }
                     ]
@@ -1116,4 +1130,269 @@ describe("parser", () => {
         ]);
     });
 
-});
\ No newline at end of file
+    test("can parse break statement", () => {
+
+        const ast = parseOk("while (1) break;");
+        expect(ast).toEqual({
+            "nodeType": "block-statement",
+            "children": [
+                {
+                    "nodeType": "while-statement",
+                    "children": [
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(1),
+                        }
+                    ],
+                    "body": {
+                        "nodeType": "break-statement",
+                    }
+                }
+            ]
+        });
+    });
+
+    test("can parse continue statement", () => {
+
+        const ast = parseOk("while (1) continue;");
+        expect(ast).toEqual({
+            "nodeType": "block-statement",
+            "children": [
+                {
+                    "nodeType": "while-statement",
+                    "children": [
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(1),
+                        }
+                    ],
+                    "body": {
+                        "nodeType": "continue-statement",
+                    }
+                }
+            ]
+        });
+    });
+
+    it("break must be terminated by a semicolon", () => {
+        expectArray(retreiveErrors("while (1) break"), [
+            {
+                message: `Expected token "semicolon", found token "end-of-file"`,
+            },
+        ]);
+    });
+
+    test("can parse do while statement", () => {
+
+        const ast = parseOk("do {\n2;\n} while (1);");
+        expect(ast).toEqual({
+            "nodeType": "block-statement",
+            "children": [
+                {
+                    "nodeType": "do-while-statement",
+                    "children": [
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(1),
+                        }
+                    ],
+                    "body": {
+                        "nodeType": "block-statement",
+                        "children": [
+                            {
+                                "nodeType": "expr-statement",
+                                "children": [
+                                    {
+                                        "nodeType": "number",
+                                        "value": BigInt(2),
+                                    }
+                                ]
+                            }
+                        ]
+                    }
+                }
+            ]
+        });
+    });
+
+    it("do while must be terminated by a semicolon", () => {
+        expectArray(retreiveErrors("do {} while (1)"), [
+            {
+                message: `Expected token "semicolon", found token "end-of-file"`,
+            },
+        ]);
+    });
+
+    test("can parse switch statement", () => {
+
+        const ast = parseOk("switch (1) { case 2: 3; break; default: 4; }");
+        expect(ast).toEqual({
+            "nodeType": "block-statement",
+            "children": [
+                {
+                    "nodeType": "switch-statement",
+                    "children": [
+                        {
+                            "nodeType": "number",
+                            "value": BigInt(1),
+                        },
+                    ],
+                    "cases": [
+                        {
+                            "nodeType": "switch-case",
+                            "children": [
+                                {
+                                    "nodeType": "number",
+                                    "value": BigInt(2),
+                                },
+                            ],
+                            "body": {
+                                "nodeType": "block-statement",
+                                "children": [
+                                    {
+                                        "nodeType": "expr-statement",
+                                        "children": [
+                                            {
+                                                "nodeType": "number",
+                                                "value": BigInt(3),
+                                            },
+                                        ],
+                                    },
+                                    {
+                                        "nodeType": "break-statement",
+                                    },
+                                ],
+                            },
+                        },
+                        {
+                            "nodeType": "switch-case",
+                            "children": [],
+                            "body": {
+                                "nodeType": "block-statement",
+                                "children": [
+                                    {
+                                        "nodeType": "expr-statement",
+                                        "children": [
+                                            {
+                                                "nodeType": "number",
+                                                "value": BigInt(4),
+                                            },
+                                        ],
+                                    },
+                                ],
+                            },
+                        },
+                    ],
+                },
+            ],
+        });
+    });
+
+    test("can parse switch statement with empty cases", () => {
+
+        const ast = parseOk("switch (1) { case 2: case 3: default: }");
+        const cases = ast.children![0].cases!;
+        expect(cases.length).toBe(3);
+        expect(cases[0].body!.children).toEqual([]);
+        expect(cases[2].children).toEqual([]);
+    });
+
+    it("case value must be followed by a colon", () => {
+        const errors = retreiveErrors("switch (1) { case 2 3; }");
+        expect(errors[0].message).toEqual(`Expected token "colon", found token "number"`);
+    });
+
+    test("doc comment is attached to a function declaration", () => {
+
+        const ast = parseOk("/// Does a thing.\nfunction test(): void {}");
+        expect(ast.children![0].nodeType).toEqual("function-declaration");
+        expect(ast.children![0].docComment).toEqual("Does a thing.");
+    });
+
+    test("doc comment is attached to a variable declaration", () => {
+
+        const ast = parseOk("/// A counter.\n/// Starts at zero.\nlet x = 0;");
+        expect(ast.children![0].nodeType).toEqual("declare-variable");
+        expect(ast.children![0].docComment).toEqual("A counter.\nStarts at zero.");
+    });
+
+    test("doc comment is attached to a constant declaration", () => {
+
+        const ast = parseOk("/// The answer.\nconst x = 42;");
+        expect(ast.children![0].docComment).toEqual("The answer.");
+    });
+
+    test("doc comment on other statements is ignored", () => {
+
+        const ast = parseOk("/// Not attached.\nreturn 1;");
+        expect(ast.children![0].docComment).toBeUndefined();
+    });
+
+    test("block comments are skipped", () => {
+
+        const ast = parseOk("/* let x = 1; */ let y = 2;");
+        expect(ast.children!.length).toEqual(1);
+        expect(ast.children![0].assignee!.value).toEqual("y");
+    });
+
+    test("records the location of each node", () => {
+
+        const ast = parse("let x = 1;\nx = x +\n  22;", () => {});
+        const [ declaration, statement ] = ast.children!;
+
+        expect(declaration).toMatchObject({
+            line: 1,
+            column: 0,
+            offset: 0,
+            endLine: 1,
+            endColumn: 10,
+            endOffset: 10,
+        });
+
+        const assignment = statement.children![0];
+        expect(assignment).toMatchObject({
+            line: 2,
+            column: 0,
+            offset: 11,
+            endLine: 3,
+            endColumn: 4,
+            endOffset: 23,
+        });
+
+        const literal = assignment.children![0].children![1];
+        expect(literal).toMatchObject({
+            nodeType: "number",
+            line: 3,
+            column: 2,
+            offset: 21,
+            endLine: 3,
+            endColumn: 4,
+            endOffset: 23,
+        });
+    });
+
+    test("nodes synthesized by the parser have the location of the code they come from", () => {
+
+        const ast = parse("for (;;) { x++; }", () => {});
+        const loop = ast.children![0].children![1];
+
+        expect(loop).toMatchObject({
+            nodeType: "while-statement",
+            line: 1,
+            column: 0,
+            endColumn: 17,
+        });
+
+        const increment = loop.body!.children![0].children![0];
+        expect(increment).toMatchObject({
+            line: 1,
+            column: 11,
+            endColumn: 14,
+        });
+        expect(increment.children![1]).toMatchObject({
+            nodeType: "number",
+            line: 1,
+            column: 11,
+        });
+    });
+});
@@ -4,14 +4,24 @@ import { compile, Compiler, ICompilerOptions } from "..";
 
 describe("runtime tests", () => {
 
-    async function execute(aquaCode: string) {
-        const tealCode = compile(aquaCode)
+    async function compileAndExecute(aquaCode: string, options?: ICompilerOptions) {
+        const tealCode = compile(aquaCode, options)
         if (tealCode === undefined) {
             throw new Error(`Failed to compile Aqua code`);
         }
         return await tealInterpreter.execute(tealCode);
     }
 
+    //
+    // Runs the code with and without optimization, checking that optimization doesn't change the result.
+    //
+    async function execute(aquaCode: string) {
+        const result = await compileAndExecute(aquaCode);
+        const optimizedResult = await compileAndExecute(aquaCode, { optimize: true });
+        expect(optimizedResult.stack).toEqual(result.stack);
+        return result;
+    }
+
     it("1 + 2", async () => {
         const result = await execute("return 1 + 2;");
         expect(result.stack.length).toBe(1);
@@ -45,4 +55,470 @@ describe("runtime tests", () => {
         expect(result.stack.length).toBe(1);
         expect(Number(result.stack[0].value)).toBe(4);
     });
-});
\ No newline at end of file
+
+    it("break exits a loop", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            while (x < 10) {
+                if (x == 3) {
+                    break;
+                }
+                x = x + 1;
+            }
+            return x;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(3);
+    });
+
+    it("do while loop runs the body before testing the condition", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            do {
+                x = x + 1;
+            } while (x > 5);
+            return x;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(1);
+    });
+
+    it("continue in a do while loop tests the condition", async () => {
+
+        const result = await execute(dedent(`
+            let a = 0;
+            let x = 0;
+            do {
+                x = x + 1;
+                if (x == 2) {
+                    continue;
+                }
+                if (x == 5) {
+                    break;
+                }
+                a = a + 1;
+            } while (x < 10);
+            return a;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(3);
+    });
+
+    it("continue in a for loop runs the increment", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            for (let i = 0; i < 6; i = i + 1) {
+                if (i < 2) {
+                    continue;
+                }
+                x = x + 1;
+            }
+            return x;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(4);
+    });
+
+    for (const [expression, expected] of [
+            ["0 && 0", 0], 
+            ["0 && 5", 0], 
+            ["5 && 0", 0], 
+            ["5 && 7", 1], 
+            ["0 || 0", 0], 
+            ["0 || 7", 1], 
+            ["5 || 0", 1], 
+            ["5 || 7", 1],
+        ]) {
+        it(`${expression} is ${expected}`, async () => {
+            const result = await execute(`return ${expression};`);
+            expect(result.stack.length).toBe(1);
+            expect(Number(result.stack[0].value)).toBe(expected);
+        });
+    }
+
+    it("&& doesn't evaluate the right hand side when the left hand side is false", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            if (x > 0 && btoi(txn.ApplicationArgs[0]) == 5) {
+                x = 1;
+            }
+            return x + 3;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(3);
+    });
+
+    it("|| doesn't evaluate the right hand side when the left hand side is true", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            if (x == 0 || btoi(txn.ApplicationArgs[0]) == 5) {
+                x = 1;
+            }
+            return x;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(1);
+    });
+
+    it("the result of ! is popped when it isn't used", async () => {
+
+        const result = await execute(dedent(`
+            !1;
+            return 2;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(2);
+    });
+
+    it("function arguments and locals are stored in the right stack frame slots", async () => {
+
+        const result = await execute(dedent(`
+            function f(a, b): uint64 {
+                let c = 0;
+                c = a - b;
+                return c;
+            }
+            return f(5, 2);
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(3);
+    });
+
+    for (const [expression, expected] of [
+            ["1 ? 2 : 3", 2],
+            ["0 ? 2 : 3", 3],
+            ["0 ? 1 : 0 ? 2 : 3", 3],
+            ["5 > 3 && 1 ? 10 + 1 : 20", 11],
+        ]) {
+        it(`${expression} is ${expected}`, async () => {
+            const result = await execute(`return ${expression};`);
+            expect(result.stack.length).toBe(1);
+            expect(Number(result.stack[0].value)).toBe(expected);
+        });
+    }
+
+    it("code with type annotations runs", async () => {
+
+        const result = await execute(dedent(`
+            const key: byte[] = "abc";
+            function add(a: uint64, b: uint64): uint64 {
+                let total: uint64 = a + b;
+                return total;
+            }
+            let x: uint64 = add(2, 3);
+            if (key == "abc") {
+                x = x + btoi(itob(3));
+            }
+            return x;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(8);
+    });
+
+    it("conditional expression only evaluates the chosen branch", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            const fee = x == 0 ? 1000 : btoi(txn.ApplicationArgs[0]);
+            return fee;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(1000);
+    });
+
+    it("conditional expression can choose between tuples", async () => {
+
+        const result = await execute(dedent(`
+            let x = 1;
+            return x == 0 ? (3, 4) : (5, 6);
+        `));
+        
+        expect(result.stack.length).toBe(2);
+        expect(Number(result.stack[0].value)).toBe(5);
+        expect(Number(result.stack[1].value)).toBe(6);
+    });
+
+    for (const [value, expected] of [
+            [1, 10],
+            [2, 23],
+            [3, 3],
+        ]) {
+        it(`switch on ${value} is ${expected}`, async () => {
+
+            const result = await execute(dedent(`
+                let x = 0;
+                switch (${value}) {
+                    case 1:
+                        x = 10;
+                        break;
+                    case 2:
+                        x = 20;
+                    default:
+                        x = x + 3;
+                }
+                return x;
+            `));
+
+            expect(result.stack.length).toBe(1);
+            expect(Number(result.stack[0].value)).toBe(expected);
+        });
+    }
+
+    it("can switch on byte values", async () => {
+
+        const result = await execute(dedent(`
+            let command = "decrement";
+            let x = 5;
+            switch (command) {
+                case "increment":
+                    x = x + 1;
+                    break;
+                case "decrement":
+                    x = x - 1;
+                    break;
+            }
+            return x;
+        `));
+
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(4);
+    });
+
+    it("break in a switch inside a loop only leaves the switch", async () => {
+
+        const result = await execute(dedent(`
+            let x = 0;
+            for (let i = 0; i < 4; i = i + 1) {
+                switch (i) {
+                    case 2:
+                        continue;
+                    default:
+                        x = x + 1;
+                        break;
+                }
+                x = x + 10;
+            }
+            return x;
+        `));
+
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(33);
+    });
+
+    for (const [expression, expected] of [
+            ["17 % 5", 2],
+            ["12 & 10", 8],
+            ["12 | 10", 14],
+            ["12 ^ 10", 6],
+            ["1 << 4", 16],
+            ["256 >> 4", 16],
+            ["~5 & 7", 2],
+            ["!0 && 5", 1],
+            ["1 | 6 & 3", 3],
+            ["1 + 1 << 2", 8],
+            ["10 - 17 % 5", 8],
+        ]) {
+        it(`${expression} is ${expected}`, async () => {
+            const result = await execute(`return ${expression};`);
+            expect(result.stack.length).toBe(1);
+            expect(Number(result.stack[0].value)).toBe(expected);
+        });
+    }
+
+    it("large numbers are exact", async () => {
+        const result = await execute("return 18446744073709551615 - 18446744073709551614;");
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(1);
+    });
+
+    for (const [expression, expected] of [
+            [`"a\\"b\\n" == hex"6122620a"`, 1],
+            [`"\\x00\\xff" == hex"00FF"`, 1],
+            [`hex"deadbeef" == b64"3q2+7w=="`, 1],
+            [`"hello" == b32"NBSWY3DP"`, 1],
+            [`hex"deadbeef" == hex"deadbeee"`, 0],
+        ]) {
+        it(`${expression} is ${expected}`, async () => {
+            const result = await execute(`return ${expression};`);
+            expect(result.stack.length).toBe(1);
+            expect(Number(result.stack[0].value)).toBe(expected);
+        });
+    }
+
+    it("constants are evaluated at compile time", async () => {
+
+        const result = await execute(dedent(`
+            const SECONDS_PER_HOUR = 60 * 60;
+            const DAY = 24 * SECONDS_PER_HOUR;
+            const MASK = ~0 >> 60;
+            let total = DAY / SECONDS_PER_HOUR;
+            for (let i = 0; i < 3; i++) {
+                total += i & MASK;
+            }
+            return total * 100 + MASK;
+        `));
+
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(2715);
+    });
+
+    it("compound assignment", async () => {
+
+        const result = await execute(dedent(`
+            let x = 10;
+            x += 5;
+            x -= 3;
+            x *= 4;
+            x /= 6;
+            x %= 5;
+            return x;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(3);
+    });
+
+    it("increment and decrement evaluate to the new or previous value", async () => {
+
+        const result = await execute(dedent(`
+            let x = 5;
+            let a = x++;
+            let b = ++x;
+            let c = x--;
+            let d = --x;
+            return a * 1000 + b * 100 + c * 10 + d + x * 10000;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(55775);
+    });
+
+    it("compound assignment and increment work on function locals", async () => {
+
+        const result = await execute(dedent(`
+            function sum(n): uint64 {
+                let total = 0;
+                for (let i = 1; i <= n; i++) {
+                    total += i;
+                }
+                return total;
+            }
+            return sum(4);
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(10);
+    });
+
+    it("functions can be called before they are declared", async () => {
+
+        const result = await execute(dedent(`
+            return isEven(10) * 10 + isEven(7);
+
+            function isEven(n): uint64 {
+                if (n == 0) {
+                    return 1;
+                }
+                return isOdd(n - 1);
+            }
+
+            function isOdd(n): uint64 {
+                if (n == 0) {
+                    return 0;
+                }
+                return isEven(n - 1);
+            }
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(10);
+    });
+
+    it("recursion that would overwrite global variables fails instead", async () => {
+
+        const code = dedent(`
+            let total = 7;
+            function count(n: uint64): uint64 {
+                if (n == 0) {
+                    return 0;
+                }
+                return count(n - 1) + 1;
+            }
+            let result = count(DEPTH);
+            return total + result;
+        `);
+
+        const result = await execute(code.replace("DEPTH", "100"));
+        expect(Number(result.stack[0].value)).toBe(107);
+
+        await expect(execute(code.replace("DEPTH", "200"))).rejects.toThrow(`assert`);
+    });
+
+    it("functions in fixed scratch slots can call each other", async () => {
+
+        const result = await execute(dedent(`
+            function square(n: uint64): uint64 {
+                let result = n * n;
+                return result;
+            }
+            function sumOfSquares(a: uint64, b: uint64): uint64 {
+                let first = square(a);
+                let second = square(b);
+                return first + second;
+            }
+            function sumOfSquaresTo(n: uint64): uint64 {
+                return n == 0 ? 0 : sumOfSquaresTo(n - 1) + square(n);
+            }
+            let x = sumOfSquares(2, 3);
+            return x * 1000 + sumOfSquaresTo(4) + square(1);
+        `));
+
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(13031);
+    });
+
+    it("variables in blocks shadow variables in the enclosing scope", async () => {
+
+        const result = await execute(dedent(`
+            function f(n): uint64 {
+                let total = 0;
+                for (let i = 0; i < n; i++) {
+                    let total = 100;
+                    total += i;
+                }
+                for (let i = 0; i < n; i++) {
+                    total += i;
+                }
+                {
+                    let x = 5;
+                    total += x;
+                }
+                let y = 1000;
+                return total + y;
+            }
+            let total = 1;
+            {
+                let total = 2;
+            }
+            return f(3) + total * 10000;
+        `));
+        
+        expect(result.stack.length).toBe(1);
+        expect(Number(result.stack[0].value)).toBe(11008);
+    });
+});
@@ -0,0 +1,145 @@
+import dedent from "dedent";
+import * as tealInterpreter from "teal-interpreter";
+import { compile, ICompilerOptions } from "..";
+import { execute, IExecutionResult } from "./lib/avm";
+
+describe("stack frames", () => {
+
+    //
+    // Compiles Aqua code to TEAL, failing the test if there are errors.
+    //
+    function compileOk(aquaCode: string, options: ICompilerOptions): string {
+        const tealCode = compile(aquaCode, options);
+        if (tealCode === undefined) {
+            throw new Error(`Failed to compile Aqua code`);
+        }
+        return tealCode;
+    }
+
+    //
+    // Runs the code at TEAL version 8 with and without optimization, using AVM stack frames.
+    // Checks that the result is the same as version 5, which the teal-interpreter package can run using scratch frames.
+    //
+    async function executeVersion8(aquaCode: string): Promise<IExecutionResult> {
+        const tealCode = compileOk(aquaCode, { targetVersion: 8 });
+        expect(tealCode).toContain(`proto `);
+
+        const result = execute(tealCode);
+        expect(execute(compileOk(aquaCode, { targetVersion: 8, optimize: true })).result).toEqual(result.result);
+
+        const version5Result = await tealInterpreter.execute(compileOk(aquaCode, { targetVersion: 5 }));
+        expect(version5Result.stack.length).toBe(1);
+        expect(Number(version5Result.stack[0].value)).toBe(Number(result.result));
+
+        return result;
+    }
+
+    it("recursive calls remove their arguments and locals from the stack", async () => {
+        const { result, maxCallDepth } = await executeVersion8(dedent(`
+            function fib(n: uint64): uint64 {
+                if (n < 2) {
+                    return n;
+                }
+                let a = fib(n - 1);
+                let b = fib(n - 2);
+                return a + b;
+            }
+            return fib(10);
+        `));
+
+        expect(result).toBe(BigInt(55));
+        expect(maxCallDepth).toBe(10);
+    });
+
+    it("calls in a loop don't grow the stack", async () => {
+        const { result, maxStackHeight } = await executeVersion8(dedent(`
+            function sum(n: uint64): uint64 {
+                if (n == 0) {
+                    return 0;
+                }
+                return n + sum(n - 1);
+            }
+            let total = 0;
+            for (let i = 0; i < 50; i = i + 1) {
+                total = total + sum(3);
+            }
+            return total;
+        `));
+
+        expect(result).toBe(BigInt(300));
+        expect(maxStackHeight).toBeLessThan(30);
+    });
+
+    it("variables in nested blocks are kept in the stack frame", async () => {
+        const { result } = await executeVersion8(dedent(`
+            function f(n: uint64): uint64 {
+                let total = 0;
+                while (n > 0) {
+                    let x = n * 2;
+                    if (x > 4) {
+                        let y = x + 1;
+                        total = total + y;
+                    }
+                    else {
+                        let z = x;
+                        {
+                            let w = z + 100 + f(0);
+                            total = total + w;
+                        }
+                    }
+                    n = n - 1;
+                }
+                return total;
+            }
+            return f(4);
+        `));
+
+        expect(result).toBe(BigInt(9 + 7 + 104 + 102));
+    });
+
+    it("multiple return values replace the arguments on the stack", async () => {
+        const { result } = await executeVersion8(dedent(`
+            function divmod(a: uint64, b: uint64): (uint64, uint64) {
+                let q = a / b;
+                return (q, a % b);
+            }
+            function digits(n: uint64): uint64 {
+                if (n < 10) {
+                    return 1;
+                }
+                let (q, r) = divmod(n, 10);
+                return 1 + digits(q);
+            }
+            let (q, r) = divmod(17, 5);
+            return q * 1000 + r * 100 + digits(12345);
+        `));
+
+        expect(result).toBe(BigInt(3 * 1000 + 2 * 100 + 5));
+    });
+
+    it("switch and match clean up the values they branch on", async () => {
+        const { result, maxStackHeight } = await executeVersion8(dedent(`
+            function pick(x: uint64, s: byte[]): uint64 {
+                let r = 0;
+                switch (x) {
+                    case 0: r = 10; break;
+                    case 1: r = 20; break;
+                    default: r = 30;
+                }
+                switch (s) {
+                    case "a": r = r + 1; break;
+                    case "b": r = r + 2; break;
+                }
+                return r;
+            }
+            let total = 0;
+            for (let i = 0; i < 20; i = i + 1) {
+                total = total + pick(i % 3, "b");
+            }
+            return total + pick(1, "a");
+        `));
+
+        expect(result).toBe(BigInt(7 * 12 + 7 * 22 + 6 * 32 + 21));
+        expect(maxStackHeight).toBeLessThan(20);
+    });
+});
@@ -1,12 +1,14 @@
-import { Compiler } from "..";
+import { Compiler, ICompilerOptions } from "..";
 
 describe("statement", () => {
 
-    function compile(code: string) {
-        const compiler = new Compiler();
-        compiler.compile(code);
+    function compile(code: string, options?: ICompilerOptions) {
+        const compiler = new Compiler(options);
+        const result = compiler.compile(code);
         return {
             errors: compiler.errors,
+            diagnostics: compiler.diagnostics,
+            output: result.output,
         };
     }
 
@@ -37,6 +39,47 @@ describe("statement", () => {
         expect(errors.length).toBe(1);
     });
 
+    it("can't increment a constant", () => {
+        const { errors } = compile(`
+            const a = 1;
+            a++;
+        `);
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("can't use compound assignment on a constant", () => {
+        const { errors } = compile(`
+            const a = 1;
+            a += 2;
+        `);
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("can't increment a number", () => {
+        const { errors } = compile("++1;");
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("branches of a conditional expression must produce the same number of values", () => {
+        const { errors } = compile(`
+            return 1 ? (1, 2) : 3;
+        `);
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("type errors stop compilation", () => {
+        const { errors } = compile(`
+            const fee = txn.Amount + "abc";
+            return btoi(5);
+        `);
+
+        expect(errors.length).toBe(2);
+    });
+
     it("can't redefine a constant", () => {
         const { errors } = compile(`
             const a = 1;
@@ -46,4 +89,262 @@ describe("statement", () => {
         expect(errors.length).toBe(1);
     });
 
+    it("errors have a severity, a code and a range", () => {
+        const { diagnostics } = compile(`let a = 1;\nreturn a + b;`);
+
+        expect(diagnostics).toEqual([
+            {
+                message: "Variable b is not declared!",
+                line: 2,
+                column: 11,
+                endLine: 2,
+                endColumn: 12,
+                severity: "error",
+                code: "AQ2001",
+            },
+        ]);
+    });
+
+    it("warnings don't stop compilation", () => {
+        const { errors, diagnostics, output } = compile(`
+            let a = 1;
+            return 2;
+        `);
+
+        expect(errors).toEqual([]);
+        expect(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.code])).toEqual([
+            [ "warning", "AQ5001" ],
+        ]);
+        expect(output).not.toEqual("");
+    });
+
+    it("warnings can be reported as errors", () => {
+        const { errors, output } = compile(`
+            let a = 1;
+            return 2;
+        `, { warningsAsErrors: true });
+
+        expect(errors.length).toBe(1);
+        expect(errors[0].code).toBe("AQ5001");
+        expect(output).toEqual("");
+    });
+
+    it("warnings can be suppressed by code", () => {
+        const { diagnostics } = compile(`
+            let a = 1;
+            return 2;
+            a = 3;
+        `, { suppress: [ "AQ5001" ] });
+
+        expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual([ "AQ5003" ]);
+    });
+
+    it("errors can't be suppressed", () => {
+        const { errors } = compile(`a = 1;`, { suppress: [ "AQ2001" ] });
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("outputs the pragma for the target version of TEAL", () => {
+        expect(compile(`return 1;`).output).toContain(`#pragma version 5\r\n`);
+        expect(compile(`return 1;`, { targetVersion: 8 }).output).toContain(`#pragma version 8\r\n`);
+    });
+
+    it("reports an error at the code that needs an opcode newer than the target version of TEAL", () => {
+        const { errors, output } = compile(`let x = 1;\nreturn x << 2;`, { targetVersion: 3 });
+
+        expect(output).toBe("");
+        expect(errors).toEqual([
+            expect.objectContaining({
+                message: `The shl opcode requires TEAL version 4 or later, the target is TEAL version 3.`,
+                line: 2,
+                column: 7,
+                endLine: 2,
+                endColumn: 13,
+            }),
+        ]);
+    });
+
+    it("reports an error at a function that can't be compiled for the target version of TEAL", () => {
+        const { errors } = compile(`\nfunction f(a: uint64): uint64 {\n    return a == 0 ? 0 : f(a - 1);\n}\nreturn f(1);`, { targetVersion: 4 });
+
+        expect(errors[0]).toEqual(expect.objectContaining({
+            message: `The stores opcode requires TEAL version 5 or later, the target is TEAL version 4.`,
+            line: 2,
+            column: 0,
+        }));
+    });
+
+    it("newer versions of TEAL allow newer opcodes", () => {
+        const code = `let x = 2;\nswitch (x) { case 0: x = 1; break; case 1: x = 2; break; }\nreturn x;`;
+
+        expect(compile(code, { targetVersion: 8 }).output).toContain(`switch switch_case_`);
+        expect(compile(code, { targetVersion: 5 }).output).not.toContain(`switch switch_case_`);
+    });
+
+    it("functions keep arguments and local variables in the AVM stack frame from TEAL version 8", () => {
+        const code = `
+            function fib(n: uint64): uint64 {
+                let result = n;
+                if (n > 1) {
+                    result = fib(n - 1) + fib(n - 2);
+                }
+                return result;
+            }
+            return fib(10);
+        `;
+        const scratchFrames = compile(code, { targetVersion: 7 }).output;
+        const stackFrames = compile(code, { targetVersion: 8 }).output;
+
+        expect(stackFrames).toContain(`proto 1 1`);
+        expect(stackFrames).toContain(`frame_dig -1`);
+        expect(stackFrames).toContain(`frame_bury 0`);
+        expect(stackFrames).not.toContain(`load 0`);
+        expect(stackFrames).not.toContain(`loads`);
+        expect(stackFrames).not.toContain(`stores`);
+        expect(stackFrames.split("\r\n").length).toBeLessThan(scratchFrames.split("\r\n").length / 2);
+    });
+
+    //
+    // Makes code that declares a function with a number of local variables.
+    //
+    function functionWithLocals(name: string, numLocals: number, body: string): string {
+        const locals: string[] = [];
+        for (let i = 0; i < numLocals; i++) {
+            locals.push(`let v${i} = ${i};`);
+        }
+        return `function ${name}(): uint64 {\n${locals.join("\n")}\n${body}\n}\n`;
+    }
+
+    it("functions that aren't recursive keep arguments and local variables in fixed scratch slots", () => {
+        const { errors, output } = compile(`
+            let x = 1;
+            function add(a: uint64, b: uint64): uint64 {
+                let c = a + b;
+                return c;
+            }
+            return add(x, 2);
+        `);
+
+        expect(errors).toEqual([]);
+        expect(output).toMatch(/add:\s+store 3\s+store 2\s/);
+        expect(output).toContain(`store 4`);
+        expect(output).toMatch(/load 4\s+retsub/);
+        expect(output).not.toContain(`load 0`);
+        expect(output).not.toContain(`loads`);
+        expect(output).not.toContain(`stores`);
+        expect(output).not.toContain(`add-cleanup`);
+    });
+
+    it("functions that can't be running at the same time share scratch slots", () => {
+        const { output } = compile(`
+            function f(a: uint64): uint64 {
+                return a;
+            }
+            function g(a: uint64): uint64 {
+                return f(a);
+            }
+            function h(a: uint64): uint64 {
+                return a;
+            }
+            return g(1) + h(2);
+        `);
+
+        expect(output).toMatch(/g:\s+store 1\s/);
+        expect(output).toMatch(/f:\s+store 2\s/);
+        expect(output).toMatch(/h:\s+store 1\s/);
+    });
+
+    it("reports an error when the variables of nested calls don't fit in scratch", () => {
+        const code = functionWithLocals("f", 100, "return v0;")
+            + functionWithLocals("g", 100, "return f() + v0;")
+            + functionWithLocals("h", 100, "return g() + v0;")
+            + `let x = f();\nreturn h() + x;`;
+        const { errors } = compile(code);
+
+        expect(errors).toEqual([
+            expect.objectContaining({
+                message: `The variables of f need scratch slots up to 301, but the last scratch slot is 255.`,
+                line: 1,
+                column: 0,
+            }),
+        ]);
+    });
+
+    it("global variables reduce the scratch slots for functions", () => {
+        const globals: string[] = [];
+        for (let i = 0; i < 200; i++) {
+            globals.push(`let g${i} = f();`);
+        }
+        const code = functionWithLocals("f", 60, "return v0;") + globals.join("\n");
+
+        expect(compile(code).errors.map(error => error.message)).toContain(
+            `The variables of f need scratch slots up to 260, but the last scratch slot is 255.`
+        );
+        expect(compile(code.replace(/let g1\d\d = f\(\);/g, "")).errors).toEqual([]);
+    });
+
+    it("reports an error when the stack frame of a recursive function can't fit in scratch", () => {
+        const globals: string[] = [];
+        for (let i = 0; i < 252; i++) {
+            globals.push(`let g${i} = ${i};`);
+        }
+        const code = `function count(n: uint64): uint64 {\nlet m = n;\nreturn m == 0 ? 0 : count(m - 1) + 1;\n}\n`
+            + globals.join("\n") + `\nreturn count(3) + g0;`;
+        const { errors } = compile(code);
+
+        expect(errors).toEqual([
+            expect.objectContaining({
+                message: `The stack frame of count needs 3 scratch slots, but global variables and functions use the scratch slots up to 252.`,
+                line: 1,
+                column: 0,
+            }),
+        ]);
+        expect(compile(code.replace("let g251 = 251;", "")).errors).toEqual([]);
+    });
+
+    it("stack frames in the AVM stack aren't limited by scratch", () => {
+        const code = functionWithLocals("f", 100, "return v0;")
+            + functionWithLocals("g", 100, "return f() + v0;")
+            + functionWithLocals("h", 100, "return g() + v0;")
+            + `return h();`;
+
+        expect(compile(code, { targetVersion: 8 }).errors).toEqual([]);
+    });
+
+    it("recursive functions check for stack overflow at runtime", () => {
+        const recursive = compile(`
+            function count(n: uint64): uint64 {
+                return n == 0 ? 0 : count(n - 1) + 1;
+            }
+            return count(3);
+        `);
+        const nonRecursive = compile(`
+            function one(): uint64 {
+                return 1;
+            }
+            return one();
+        `);
+
+        expect(recursive.errors).toEqual([]);
+        expect(recursive.output).toContain(`assert`);
+        expect(recursive.output).toContain(`count-cleanup`);
+        expect(nonRecursive.output).not.toContain(`assert`);
+    });
+
+    it("can't target an unsupported version of TEAL", () => {
+        const { errors, output } = compile(`return 1;`, { targetVersion: 1 });
+
+        expect(errors).toEqual([
+            expect.objectContaining({
+                message: `Unsupported TEAL version 1, expected a version from 2 to 10.`,
+                code: "AQ4001",
+                line: 1,
+                column: 0,
+            }),
+        ]);
+        expect(output).toBe("");
+        expect(compile(`return 1;`, { targetVersion: 11 }).errors.length).toBe(1);
+        expect(compile(`return 1;`, { targetVersion: 8.5 }).errors.length).toBe(1);
+    });
 });
@@ -1,5 +1,6 @@
 import { ASTNode } from "../ast";
 import { IError } from "../error";
+import { parse } from "../parser";
 import { SymbolType } from "../symbol";
 import { SymbolResolution, visitors } from "../symbol-resolution";
 import { SymbolTable } from "../symbol-table";
@@ -9,13 +10,30 @@ describe("symbol resolution", () => {
 
     //
     // Resolves symbols for an AST.
+    // Warnings are returned separately to errors.
     //
     function resolveSymbols(ast: ASTNode) {
         let errors: IError[] = [];
-        const symbolResolution = new SymbolResolution(err => { errors.push(err) });
+        let warnings: IError[] = [];
+        const symbolResolution = new SymbolResolution(err => { 
+            if (err.severity === "warning") {
+                warnings.push(err);
+            }
+            else {
+                errors.push(err);
+            }
+        });
         const globalSymbolTable = new SymbolTable(1);
         symbolResolution.resolveSymbols(ast, globalSymbolTable);
-        return { errors };
+        return { errors, warnings };
+    }
+
+    //
+    // Parses code and resolves symbols.
+    //
+    function resolveCode(code: string) {
+        const ast = parse(code, err => { throw new Error(err.message) });
+        return { ast, ...resolveSymbols(ast) };
     }
 
     it("symbol is resolved for variable declaration", () => {
@@ -234,73 +252,1085 @@ describe("symbol resolution", () => {
 
     });
 
-    it("function arguments are defined as local variables", () => {
+    it("symbols within for loop increment are resolved", () => {
+        const variableAccess: ASTNode = {
+            nodeType: "identifier",
+            value: "myVar",
+        };
 
-        const ast: ASTNode = {
-            nodeType: "function-declaration",
-            params: ["a", "b"],
-            returnType: { "type": "void" },
+        const ast = {
+            nodeType: "block-statement",
+            children: [
+                {
+                    nodeType: "declare-variable",
+                    assignee: {
+                        nodeType: "identifier",
+                        value: "myVar",
+                    },
+                },
+                {
+                    nodeType: "while-statement",
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                    increment: variableAccess,
+                },
+            ],
+        };
+
+        resolveSymbols(ast);
+
+        expect(variableAccess.symbol).toBeDefined();
+    });
+
+    it("can break and continue inside a loop", () => {
+
+        const ast = {
+            nodeType: "while-statement",
             body: {
                 nodeType: "block-statement",
-                children: [],
+                children: [
+                    {
+                        nodeType: "break-statement",
+                    },
+                    {
+                        nodeType: "continue-statement",
+                    },
+                ],
             },
         };
 
-        resolveSymbols(ast);
+        const { errors } = resolveSymbols(ast);
 
-        expect(ast.scope!.isDefinedLocally("a"));
-        expect(ast.scope!.isDefinedLocally("b"));
+        expect(errors).toEqual([]);
     });
 
-    it("symbol is resolved for function call", () => {
+    it("can break and continue inside a do while loop", () => {
 
-        const functionCall: ASTNode = {
-            nodeType: "function-call",
-            value: "myFunction",
-            functionArgs: [],
+        const ast = {
+            nodeType: "do-while-statement",
+            children: [],
+            body: {
+                nodeType: "block-statement",
+                children: [
+                    {
+                        nodeType: "break-statement",
+                    },
+                    {
+                        nodeType: "continue-statement",
+                    },
+                ],
+            },
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expect(errors).toEqual([]);
+    });
+
+    it("break outside a loop reports an error", () => {
+
+        const ast = {
+            nodeType: "break-statement",
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `"break" can only be used inside a loop or switch.`,
+            }
+        ]);
+    });
+
+    it("continue outside a loop reports an error", () => {
+
+        const ast = {
+            nodeType: "continue-statement",
         };
 
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `"continue" can only be used inside a loop.`,
+            }
+        ]);
+    });
+
+    it("loop outside a function doesn't enclose the function body", () => {
+
         const ast: ASTNode = {
-            nodeType: "block-statement",
+            nodeType: "while-statement",
+            body: {
+                nodeType: "function-declaration",
+                value: "myFunction",
+                params: [],
+                returnType: { "type": "void" },
+                body: {
+                    nodeType: "break-statement",
+                },
+            },
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("can break inside a switch", () => {
+
+        const ast: ASTNode = {
+            nodeType: "switch-statement",
             children: [
                 {
-                    nodeType: "function-declaration",
-                    value: "myFunction",
-                    params: ["a", "b"],
-                    returnType: { "type": "void" },
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            cases: [
+                {
+                    nodeType: "switch-case",
+                    children: [],
+                    body: {
+                        nodeType: "break-statement",
+                    },
+                },
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expect(errors).toEqual([]);
+    });
+
+    it("continue inside a switch that isn't in a loop reports an error", () => {
+
+        const ast: ASTNode = {
+            nodeType: "switch-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            cases: [
+                {
+                    nodeType: "switch-case",
+                    children: [],
+                    body: {
+                        nodeType: "continue-statement",
+                    },
+                },
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `"continue" can only be used inside a loop.`,
+            }
+        ]);
+    });
+
+    it("duplicate case values report an error", () => {
+
+        const ast: ASTNode = {
+            nodeType: "switch-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            cases: [
+                {
+                    nodeType: "switch-case",
+                    children: [
+                        {
+                            nodeType: "number",
+                            value: BigInt(2),
+                        },
+                    ],
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+                {
+                    nodeType: "switch-case",
+                    children: [
+                        {
+                            nodeType: "number",
+                            value: BigInt(2),
+                        },
+                    ],
                     body: {
                         nodeType: "block-statement",
                         children: [],
                     },
                 },
-                functionCall,
             ],
         };
 
-        resolveSymbols(ast);
+        const { errors } = resolveSymbols(ast);
 
-        expect(functionCall.symbol).toBeDefined();
+        expectArray(errors, [
+            {
+                message: `Duplicate case value in switch statement.`,
+            }
+        ]);
     });
 
-    it("symbol resolution reports an error when visitor throws", () => {
+    it("byte case values in different encodings are duplicates when they have the same bytes", () => {
+
+        for (const [ first, second ] of [
+            [ `"A"`, `hex"41"` ],
+            [ `"A"`, `b64"QQ=="` ],
+            [ `hex"41"`, `b32"IE======"` ],
+            [ `b64"3q2+7w=="`, `hex"DEADBEEF"` ],
+            [ `b32"32W353Y="`, `b64"3q2+7w=="` ],
+        ]) {
+            const { errors } = resolveCode(`let x = "A";\nswitch (x) { case ${first}: break; case ${second}: break; }`);
+
+            expectArray(errors, [
+                {
+                    message: `Duplicate case value in switch statement.`,
+                },
+            ]);
+        }
+
+        expect(resolveCode(`let x = "A";\nswitch (x) { case b64"QQ==": break; case b64"Qg==": break; }`).errors).toEqual([]);
+    });
+
+    it("case values that are constants are duplicates of their values", () => {
+
+        const { errors } = resolveCode(`const A = 1;\nconst B = A;\nlet x = 1;\nswitch (x) { case A: break; case 2: break; case 1: break; }`);
+        expectArray(errors, [
+            {
+                message: `Duplicate case value in switch statement.`,
+            },
+        ]);
+
+        expectArray(resolveCode(`const A = 1;\nconst B = A;\nlet x = 1;\nswitch (x) { case B: break; case 1: break; }`).errors, [
+            {
+                message: `Duplicate case value in switch statement.`,
+            },
+        ]);
+
+        expect(resolveCode(`const A = 1;\nlet x = 1;\nswitch (x) { case A: break; case 2: break; }`).errors).toEqual([]);
+    });
+
+    it("duplicate byte case values report an error", () => {
 
-        const nodeType = "bad-node";
         const ast: ASTNode = {
-            nodeType,
+            nodeType: "switch-statement",
+            children: [
+                {
+                    nodeType: "string-literal",
+                    value: "a",
+                },
+            ],
+            cases: [
+                {
+                    nodeType: "switch-case",
+                    children: [
+                        {
+                            nodeType: "string-literal",
+                            value: "a",
+                        },
+                    ],
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+                {
+                    nodeType: "switch-case",
+                    children: [
+                        {
+                            nodeType: "string-literal",
+                            value: "61",
+                            encoding: "hex",
+                        },
+                    ],
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+            ],
         };
 
-        const errMsg = "This node is bad!";
-        visitors[nodeType] = () => {
-            throw new Error(errMsg)
+        const { errors } = resolveSymbols(ast);
+
+        expect(errors.length).toBe(1);
+    });
+
+    it("switch can only have one default case", () => {
+
+        const ast: ASTNode = {
+            nodeType: "switch-statement",
+            children: [
+                {
+                    nodeType: "number",
+                    value: 1,
+                },
+            ],
+            cases: [
+                {
+                    nodeType: "switch-case",
+                    children: [],
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+                {
+                    nodeType: "switch-case",
+                    children: [],
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+            ],
         };
 
         const { errors } = resolveSymbols(ast);
 
         expectArray(errors, [
             {
-                message: errMsg,
+                message: `A switch statement can only have one default case.`,
             }
         ]);
     });
 
-});
\ No newline at end of file
+    it("function arguments are defined as local variables", () => {
+
+        const ast: ASTNode = {
+            nodeType: "function-declaration",
+            params: ["a", "b"],
+            returnType: { "type": "void" },
+            body: {
+                nodeType: "block-statement",
+                children: [],
+            },
+        };
+
+        resolveSymbols(ast);
+
+        expect(ast.scope!.isDefinedLocally("a"));
+        expect(ast.scope!.isDefinedLocally("b"));
+    });
+
+    it("parameter types are stored on the parameter symbols", () => {
+
+        const ast: ASTNode = {
+            nodeType: "function-declaration",
+            value: "myFunction",
+            params: ["a", "b"],
+            paramTypes: [{ "type": "uint64" }, undefined],
+            returnType: { "type": "void" },
+            body: {
+                nodeType: "block-statement",
+                children: [],
+            },
+        };
+
+        resolveSymbols(ast);
+
+        const params = ast.symbol!.params!;
+        expect(params.map(param => param.name)).toEqual(["a", "b"]);
+        expect(params[0].valueType).toEqual({ "type": "uint64" });
+        expect(params[1].valueType).toBeUndefined();
+        expect(ast.scope!.get("a")).toBe(params[0]);
+    });
+
+    it("parameter can't be void", () => {
+
+        const ast: ASTNode = {
+            nodeType: "function-declaration",
+            value: "myFunction",
+            params: ["a"],
+            paramTypes: [{ "type": "void" }],
+            returnType: { "type": "void" },
+            body: {
+                nodeType: "block-statement",
+                children: [],
+            },
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `Parameter a can't be void.`,
+            },
+        ]);
+    });
+
+    it("parameter can't be a tuple", () => {
+
+        const { errors } = resolveCode(`function g(a: (uint64, uint64)): uint64 { return 1; } return g((1, 2));`);
+
+        expectArray(errors, [
+            {
+                message: `Parameter a can't be a tuple, use a parameter for each value.`,
+            },
+        ]);
+    });
+
+    it("a single variable can't have a tuple type", () => {
+
+        const { errors } = resolveCode(`function f(): (uint64, byte[]) { return (1, "a"); } let x: (uint64, byte[]) = f();`);
+
+        expectArray(errors, [
+            {
+                message: `x can only hold one value, declare a variable for each value of the tuple, e.g. let (a, b) = ...`,
+            },
+        ]);
+    });
+
+    it("a destructured variable can't have a tuple type", () => {
+
+        const { errors } = resolveCode(`let (a, b): ((uint64, uint64), uint64) = ((1, 2), 3);`);
+
+        expectArray(errors, [
+            {
+                message: `A variable can only hold one value, tuples can't be nested.`,
+            },
+        ]);
+    });
+
+    it("declared type is stored on the variable symbol", () => {
+
+        const ast: ASTNode = {
+            nodeType: "declare-variable",
+            assignee: {
+                nodeType: "identifier",
+                value: "myVar",
+            },
+            declaredType: { "type": "byte[]" },
+        };
+
+        resolveSymbols(ast);
+
+        expect(ast.symbol!.valueType).toEqual({ "type": "byte[]" });
+    });
+
+    it("declared type is stored on each symbol of a tuple", () => {
+
+        const ast: ASTNode = {
+            nodeType: "declare-variable",
+            assignee: {
+                nodeType: "tuple",
+                children: [
+                    {
+                        nodeType: "identifier",
+                        value: "a",
+                    },
+                    {
+                        nodeType: "identifier",
+                        value: "b",
+                    },
+                ],
+            },
+            declaredType: { "type": "tuple", children: [ { "type": "uint64" }, { "type": "byte[]" } ] },
+        };
+
+        resolveSymbols(ast);
+
+        expect(ast.symbols!.map(symbol => symbol.valueType)).toEqual([ { "type": "uint64" }, { "type": "byte[]" } ]);
+    });
+
+    it("declared type of a tuple must have the same number of values", () => {
+
+        const ast: ASTNode = {
+            nodeType: "declare-variable",
+            assignee: {
+                nodeType: "tuple",
+                children: [
+                    {
+                        nodeType: "identifier",
+                        value: "a",
+                    },
+                    {
+                        nodeType: "identifier",
+                        value: "b",
+                    },
+                ],
+            },
+            declaredType: { "type": "uint64" },
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `Expected the type of the tuple to have 2 values.`,
+            },
+        ]);
+    });
+
+    it("symbol is resolved for function call", () => {
+
+        const functionCall: ASTNode = {
+            nodeType: "function-call",
+            value: "myFunction",
+            functionArgs: [],
+        };
+
+        const ast: ASTNode = {
+            nodeType: "block-statement",
+            children: [
+                {
+                    nodeType: "function-declaration",
+                    value: "myFunction",
+                    params: ["a", "b"],
+                    returnType: { "type": "void" },
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+                functionCall,
+            ],
+        };
+
+        resolveSymbols(ast);
+
+        expect(functionCall.symbol).toBeDefined();
+    });
+
+    it("symbol is resolved for function call before the function is declared", () => {
+
+        const functionCall: ASTNode = {
+            nodeType: "function-call",
+            value: "myFunction",
+            functionArgs: [],
+        };
+
+        const ast: ASTNode = {
+            nodeType: "block-statement",
+            children: [
+                functionCall,
+                {
+                    nodeType: "function-declaration",
+                    value: "myFunction",
+                    params: [],
+                    returnType: { "type": "void" },
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expect(errors).toEqual([]);
+        expect(functionCall.symbol).toBeDefined();
+        expect(functionCall.symbol).toBe(ast.children![1].symbol);
+    });
+
+    it("calling a function that isn't declared is an error", () => {
+
+        const ast: ASTNode = {
+            nodeType: "function-call",
+            value: "myFunction",
+            functionArgs: [],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `Function myFunction is not declared.`,
+            },
+        ]);
+    });
+
+    it("calling a variable is an error", () => {
+
+        const ast: ASTNode = {
+            nodeType: "block-statement",
+            children: [
+                {
+                    nodeType: "declare-variable",
+                    assignee: {
+                        nodeType: "identifier",
+                        value: "myVar",
+                    },
+                },
+                {
+                    nodeType: "function-call",
+                    value: "myVar",
+                    functionArgs: [],
+                },
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `myVar is not a function.`,
+            },
+        ]);
+    });
+
+    it("calling a function with the wrong number of arguments is an error", () => {
+
+        const ast: ASTNode = {
+            nodeType: "block-statement",
+            children: [
+                {
+                    nodeType: "function-declaration",
+                    value: "myFunction",
+                    params: ["a"],
+                    returnType: { "type": "void" },
+                    body: {
+                        nodeType: "block-statement",
+                        children: [],
+                    },
+                },
+                {
+                    nodeType: "function-call",
+                    value: "myFunction",
+                    functionArgs: [
+                        {
+                            nodeType: "number",
+                            value: BigInt(1),
+                        },
+                        {
+                            nodeType: "number",
+                            value: BigInt(2),
+                        },
+                    ],
+                    line: 3,
+                    column: 4,
+                },
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `Function myFunction expects 1 argument, found 2.`,
+                line: 3,
+                column: 4,
+            },
+        ]);
+    });
+
+    it("calling a builtin function with the wrong number of arguments is an error", () => {
+
+        const ast: ASTNode = {
+            nodeType: "function-call",
+            value: "appGlobalPut",
+            functionArgs: [
+                {
+                    nodeType: "string-literal",
+                    value: "key",
+                },
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `Function appGlobalPut expects 2 arguments, found 1.`,
+            },
+        ]);
+    });
+
+    it("declaring a function twice is an error", () => {
+
+        const makeFunction = (): ASTNode => ({
+            nodeType: "function-declaration",
+            value: "myFunction",
+            params: [],
+            returnType: { "type": "void" },
+            body: {
+                nodeType: "block-statement",
+                children: [],
+            },
+        });
+
+        const ast: ASTNode = {
+            nodeType: "block-statement",
+            children: [
+                makeFunction(),
+                makeFunction(),
+            ],
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: `Symbol already declared: myFunction`,
+            },
+        ]);
+    });
+
+    it("symbol resolution reports an error when visitor throws", () => {
+
+        const nodeType = "bad-node";
+        const ast: ASTNode = {
+            nodeType,
+        };
+
+        const errMsg = "This node is bad!";
+        visitors[nodeType] = () => {
+            throw new Error(errMsg)
+        };
+
+        const { errors } = resolveSymbols(ast);
+
+        expectArray(errors, [
+            {
+                message: errMsg,
+            }
+        ]);
+    });
+
+
+    it("variables declared in a block are not in scope after the block", () => {
+
+        const { errors } = resolveCode(`
+            if (1) {
+                let x = 1;
+            }
+            x = 2;
+        `);
+
+        expectArray(errors, [
+            {
+                message: `Variable x is not declared!`,
+            },
+        ]);
+    });
+
+    it("variables in a block can shadow variables in the enclosing scope", () => {
+
+        const { ast, errors } = resolveCode(`
+            let x = 1;
+            {
+                let x = 2;
+                x = 3;
+            }
+            x = 4;
+        `);
+
+        expect(errors).toEqual([]);
+
+        const [ outerDecl, block, outerAssignment ] = ast.children!;
+        const [ innerDecl, innerAssignment ] = block.children!;
+        expect(innerDecl.symbol).not.toBe(outerDecl.symbol);
+        expect(innerAssignment.children![0].symbol).toBe(innerDecl.symbol);
+        expect(outerAssignment.children![0].symbol).toBe(outerDecl.symbol);
+    });
+
+    it("the value of a declaration can't refer to the variable being declared", () => {
+
+        const { ast, errors } = resolveCode(`
+            let x = 1;
+            {
+                let x = x + 1;
+            }
+        `);
+
+        expect(errors).toEqual([]);
+
+        const [ outerDecl, block ] = ast.children!;
+        const [ innerDecl ] = block.children!;
+        const [ value ] = innerDecl.initializer!.children!;
+        expect(value.children![0].symbol).toBe(outerDecl.symbol);
+        expect(innerDecl.initializer!.symbol).toBe(innerDecl.symbol);
+    });
+
+    it("constants with values known at compile time aren't allocated in scratch", () => {
+
+        const { ast, errors } = resolveCode(`
+            const a = 2 * 60;
+            const b = a + 1;
+            const c = txn.Fee;
+            let d = b + c;
+        `);
+
+        expect(errors).toEqual([]);
+
+        const [ aDecl, bDecl, cDecl, dDecl ] = ast.children!;
+        expect(aDecl.symbol!.position).toBeUndefined();
+        expect(bDecl.symbol!.position).toBeUndefined();
+        expect(bDecl.symbol!.value).toBe(bDecl.initializer!.children![0]);
+        expect(cDecl.symbol!.position).toBe(1);
+        expect(cDecl.symbol!.value).toBeUndefined();
+        expect(dDecl.symbol!.position).toBe(2);
+    });
+
+    it("a variable can't be declared twice in the same block", () => {
+
+        const { errors } = resolveCode(`
+            {
+                let x = 1;
+                let x = 2;
+            }
+        `);
+
+        expectArray(errors, [
+            {
+                message: `x is already declared!`,
+            },
+        ]);
+    });
+
+    it("a parameter can't be redeclared in the body of the function", () => {
+
+        const { errors } = resolveCode(`
+            function f(a): void {
+                let a = 1;
+            }
+        `);
+
+        expectArray(errors, [
+            {
+                message: `a is already declared!`,
+            },
+        ]);
+    });
+
+    it("the variable declared by a for loop is scoped to the loop", () => {
+
+        const { ast, errors } = resolveCode(`
+            for (let i = 0; i < 2; i = i + 1) {
+            }
+            for (let i = 0; i < 2; i = i + 1) {
+            }
+            let x = 1;
+        `);
+
+        expect(errors).toEqual([]);
+
+        const [ firstLoop, secondLoop, declaration ] = ast.children!;
+        expect(firstLoop.children![0].symbol!.position).toBe(1);
+        expect(secondLoop.children![0].symbol!.position).toBe(1);
+        expect(declaration.symbol!.position).toBe(1);
+    });
+
+    it("errors are reported at the location of the node", () => {
+
+        const { errors } = resolveCode(`let x = 1;\nx = y;`);
+
+        expectArray(errors, [
+            {
+                message: `Variable y is not declared!`,
+                line: 2,
+                column: 4,
+            },
+        ]);
+    });
+
+    it("reports an error for each global variable that doesn't fit in scratch", () => {
+
+        const globals: string[] = [];
+        for (let i = 1; i <= 256; i++) {
+            globals.push(`let g${i} = ${i};`);
+        }
+        globals.push(`let (a, b) = (1, 2);`);
+
+        const { errors } = resolveCode(globals.join("\n"));
+
+        expectArray(errors, [
+            {
+                message: `There is no scratch slot for g256, global variables can only use slots up to 255.`,
+                line: 256,
+                column: 4,
+            },
+            {
+                message: `There is no scratch slot for a, global variables can only use slots up to 255.`,
+                line: 257,
+                column: 5,
+            },
+            {
+                message: `There is no scratch slot for b, global variables can only use slots up to 255.`,
+                line: 257,
+                column: 8,
+            },
+        ]);
+    });
+
+    it("variables in blocks that have ended don't use up scratch", () => {
+
+        const blocks: string[] = [];
+        for (let i = 1; i <= 300; i++) {
+            blocks.push(`{ let g${i} = ${i}; }`);
+        }
+
+        const { errors } = resolveCode(blocks.join("\n"));
+
+        expect(errors).toEqual([]);
+    });
+
+    it("warns about variables that are never used", () => {
+
+        const { warnings } = resolveCode(`
+            let a = 1;
+            const b = 2;
+            let c = 3;
+            let (d, e) = (4, 5);
+            return c + e;
+        `);
+
+        expectArray(warnings, [
+            {
+                message: `Variable a is declared but never used.`,
+                code: "AQ5001",
+                line: 2,
+                column: 16,
+            },
+            {
+                message: `Constant b is declared but never used.`,
+                code: "AQ5001",
+            },
+            {
+                message: `Variable d is declared but never used.`,
+                code: "AQ5001",
+            },
+        ]);
+    });
+
+    it("warns about parameters that are never used", () => {
+
+        const { warnings } = resolveCode(`
+            function f(a: uint64, b: uint64): uint64 { return a; }
+            return f(1, 2);
+        `);
+
+        expectArray(warnings, [
+            {
+                message: `Parameter b is declared but never used.`,
+                code: "AQ5001",
+                line: 2,
+                column: 34,
+                endColumn: 35,
+            },
+        ]);
+    });
+
+    it("warns about variables that are only updated from their own value", () => {
+
+        const { warnings } = resolveCode(`
+            let a = 1;
+            a += 2;
+            let b = 1;
+            b++;
+            let c = 1;
+            c = c * 2;
+            let d = 1;
+            for (let i = 0; i < 3; i++) {
+                d = d + i;
+            }
+            let e = 1;
+            let f = e++;
+            return f;
+        `);
+
+        expectArray(warnings, [
+            {
+                message: `Variable a is declared but never used.`,
+                code: "AQ5001",
+            },
+            {
+                message: `Variable b is declared but never used.`,
+                code: "AQ5001",
+            },
+            {
+                message: `Variable c is declared but never used.`,
+                code: "AQ5001",
+            },
+            {
+                message: `Variable d is declared but never used.`,
+                code: "AQ5001",
+            },
+        ]);
+    });
+
+    it("warns about functions that are never called", () => {
+
+        const { warnings } = resolveCode(`
+            function f(): uint64 { return 1; }
+            function g(): uint64 { return f(); }
+        `);
+
+        expectArray(warnings, [
+            {
+                message: `Function g is declared but never called.`,
+                code: "AQ5002",
+            },
+        ]);
+    });
+
+    it("warns about unreachable code", () => {
+
+        const { warnings } = resolveCode(`
+            if (txn.Amount > 5) {
+                exit(0);
+                return 1;
+            }
+            return 2;
+            f();
+            function f(): uint64 { return 3; }
+        `);
+
+        expectArray(warnings, [
+            {
+                message: `Unreachable code.`,
+                code: "AQ5003",
+                line: 4,
+            },
+            {
+                message: `Unreachable code.`,
+                code: "AQ5003",
+                line: 7,
+            },
+        ]);
+    });
+
+    it("warns about names that shadow a name in an enclosing scope", () => {
+
+        const { warnings } = resolveCode(`
+            let x = 1;
+            function f(x): uint64 { 
+                return x; 
+            }
+            {
+                let x = f(2);
+                return x;
+            }
+            return x;
+        `);
+
+        expectArray(warnings, [
+            {
+                message: `Parameter x shadows a symbol declared in an enclosing scope.`,
+                code: "AQ5004",
+                line: 3,
+                column: 23,
+                endColumn: 24,
+            },
+            {
+                message: `x shadows a symbol declared in an enclosing scope.`,
+                code: "AQ5004",
+                line: 7,
+            },
+        ]);
+    });
+});
@@ -53,4 +53,35 @@ describe("symbol table", () => {
         const symbolTable = new SymbolTable(10);
         expect(symbolTable.define("myVar", SymbolType.Variable).position).toBe(10)
     }) 
+
+    it("variables in a block scope are allocated after the variables of the enclosing scope", () => {
+
+        const symbolTable = new SymbolTable(1);
+        symbolTable.define("myVar1", SymbolType.Variable);
+
+        const blockScope = symbolTable.createBlockScope();
+        expect(blockScope.define("myVar2", SymbolType.Variable).position).toBe(2);
+        expect(blockScope.define("myVar3", SymbolType.Variable).position).toBe(3);
+        expect(symbolTable.getNumVariables()).toBe(3);
+    });
+
+    it("positions are reused after a block scope has ended", () => {
+
+        const symbolTable = new SymbolTable(1);
+        symbolTable.createBlockScope().define("myVar1", SymbolType.Variable);
+        symbolTable.createBlockScope().define("myVar2", SymbolType.Variable);
+
+        expect(symbolTable.define("myVar3", SymbolType.Variable).position).toBe(1);
+        expect(symbolTable.getNumVariables()).toBe(1);
+    });
+
+    it("variables in a block scope of the global scope are globals", () => {
+
+        const globalSymbolTable = new SymbolTable(1);
+        const blockScope = globalSymbolTable.createBlockScope();
+        expect(blockScope.define("myVar", SymbolType.Variable).isGlobal).toBe(true);
+
+        const functionSymbolTable = new SymbolTable(1, blockScope);
+        expect(functionSymbolTable.createBlockScope().define("myVar", SymbolType.Variable).isGlobal).toBe(false);
+    });
 });
@@ -89,12 +89,67 @@ describe("tokenizer", () => {
         expectArray(tokenize("global"), [{ type: TokenType.GLOBAL }]);
         expectArray(tokenize("OnComplete"), [{ type: TokenType.ONCOMPLETE }]);
         expectArray(tokenize("TypeEnum"), [{ type: TokenType.TYPEENUM }]);
+        expectArray(tokenize("break"), [{ type: TokenType.BREAK }]);
+        expectArray(tokenize("continue"), [{ type: TokenType.CONTINUE }]);
+        expectArray(tokenize("switch"), [{ type: TokenType.SWITCH }]);
+        expectArray(tokenize("case"), [{ type: TokenType.CASE }]);
+        expectArray(tokenize("default"), [{ type: TokenType.DEFAULT }]);
+        expectArray(tokenize("do"), [{ type: TokenType.DO }]);
+        expectArray(tokenize("%"), [{ type: TokenType.MODULO }]);
+        expectArray(tokenize("&"), [{ type: TokenType.BITWISE_AND }]);
+        expectArray(tokenize("|"), [{ type: TokenType.BITWISE_OR }]);
+        expectArray(tokenize("^"), [{ type: TokenType.BITWISE_XOR }]);
+        expectArray(tokenize("~"), [{ type: TokenType.BITWISE_NOT }]);
+        expectArray(tokenize("<<"), [{ type: TokenType.SHL }]);
+        expectArray(tokenize(">>"), [{ type: TokenType.SHR }]);
+        expectArray(tokenize("+="), [{ type: TokenType.PLUS_ASSIGNMENT }]);
+        expectArray(tokenize("-="), [{ type: TokenType.MINUS_ASSIGNMENT }]);
+        expectArray(tokenize("*="), [{ type: TokenType.MULTIPLY_ASSIGNMENT }]);
+        expectArray(tokenize("/="), [{ type: TokenType.DIVIDE_ASSIGNMENT }]);
+        expectArray(tokenize("%="), [{ type: TokenType.MODULO_ASSIGNMENT }]);
+        expectArray(tokenize("++"), [{ type: TokenType.INCREMENT }]);
+        expectArray(tokenize("--"), [{ type: TokenType.DECREMENT }]);
+    });
+
+    it("can tokenize question mark", () => {
+        expectArray(tokenize("?"), [{ type: TokenType.QUESTION }]);
     });
 
     test("can skip comments", () => {
         expectArray(tokenize("//\n+"), [{ type: TokenType.PLUS }]);
     });
 
+    test("can skip block comments", () => {
+        expectArray(tokenize("/* a\n comment */+"), [{ type: TokenType.PLUS }]);
+        expectArray(tokenize("/**/+/* * / */-"), [{ type: TokenType.PLUS }, { type: TokenType.MINUS }]);
+    });
+
+    test("error for unterminated block comment", () => {
+        expectArray(retreiveErrors("+\n  /* comment *"), [{ 
+            message: "Unterminated block comment.",
+            line: 2, 
+            column: 2,
+        }]);
+    });
+
+    test("doc comment is attached to the next token", () => {
+        expectArray(tokenize("/// Line 1.\r\n///Line 2.\nlet"), [{ 
+            type: TokenType.LET, 
+            docComment: "Line 1.\nLine 2.",
+        }]);
+    });
+
+    test("doc comment is only attached to one token", () => {
+        expectArray(tokenize("/// Comment.\nlet x"), [
+            { type: TokenType.LET, docComment: "Comment." },
+            { type: TokenType.IDENTIFIER, docComment: undefined },
+        ]);
+    });
+
+    test("four slashes is not a doc comment", () => {
+        expectArray(tokenize("//// Comment.\nlet"), [{ type: TokenType.LET, docComment: undefined }]);
+    });
+
     test("can scan identifier", () => {
         expectArray(tokenize("abc"), [{ 
             type: TokenType.IDENTIFIER,
@@ -179,25 +234,66 @@ describe("tokenizer", () => {
 
     test("can tokenize various numbers", () => {
 
-        expectArray(tokenize("0"), [{ type: TokenType.NUMBER, value: 0 }]);
-        expectArray(tokenize("1"), [{ type: TokenType.NUMBER, value: 1 }]);
-        expectArray(tokenize("123"), [{ type: TokenType.NUMBER, value: 123 }]);
+        expectArray(tokenize("0"), [{ type: TokenType.NUMBER, value: BigInt(0) }]);
+        expectArray(tokenize("1"), [{ type: TokenType.NUMBER, value: BigInt(1) }]);
+        expectArray(tokenize("123"), [{ type: TokenType.NUMBER, value: BigInt(123) }]);
+    });
+
+    test("can tokenize numbers larger than 2^53 exactly", () => {
+
+        expectArray(tokenize("18446744073709551615"), [{ type: TokenType.NUMBER, value: BigInt("18446744073709551615") }]);
+        expectArray(tokenize("9007199254740993"), [{ type: TokenType.NUMBER, value: BigInt("9007199254740993") }]);
+    });
+
+    test("can tokenize prefixed numbers", () => {
+
+        expectArray(tokenize("0xff"), [{ type: TokenType.NUMBER, value: BigInt(255) }]);
+        expectArray(tokenize("0XFF"), [{ type: TokenType.NUMBER, value: BigInt(255) }]);
+        expectArray(tokenize("0b101"), [{ type: TokenType.NUMBER, value: BigInt(5) }]);
+        expectArray(tokenize("0o17"), [{ type: TokenType.NUMBER, value: BigInt(15) }]);
+        expectArray(tokenize("0xFFFFFFFFFFFFFFFF"), [{ type: TokenType.NUMBER, value: BigInt("18446744073709551615") }]);
+    });
+
+    test("can tokenize numbers with digit separators", () => {
+
+        expectArray(tokenize("1_000_000"), [{ type: TokenType.NUMBER, value: BigInt(1000000) }]);
+        expectArray(tokenize("0xff_ff"), [{ type: TokenType.NUMBER, value: BigInt(65535) }]);
+        expectArray(tokenize("0b1111_0000"), [{ type: TokenType.NUMBER, value: BigInt(240) }]);
+    });
+
+    test("error for number that doesn't fit in a uint64", () => {
+        expectArray(retreiveErrors("\n  18446744073709551616"), [{ 
+            message: `Number literal "18446744073709551616" is too large to fit in a uint64.`,
+            line: 2, 
+            column: 2,
+        }]);
+        expect(retreiveErrors("0x1_0000_0000_0000_0000").length).toBe(1);
+    });
+
+    test("error for invalid number", () => {
+        for (const invalidNumber of ["0x", "0b102", "0o8", "12abc", "1__0", "1_", "0x_1"]) {
+            expectArray(retreiveErrors(invalidNumber), [{ 
+                message: `Invalid number literal "${invalidNumber}".`,
+                line: 1, 
+                column: 0,
+            }]);
+        }
     });
 
     test("can tokenize an expression", () => {
 
         // No whitespace.
         expectArray(tokenize("1+2"), [ 
-            { type: TokenType.NUMBER, value: 1 },
+            { type: TokenType.NUMBER, value: BigInt(1) },
             { type: TokenType.PLUS },
-            { type: TokenType.NUMBER, value: 2 },
+            { type: TokenType.NUMBER, value: BigInt(2) },
         ]);
 
         // With whitespace.
         expectArray(tokenize(" 1 + 2 "), [ 
-            { type: TokenType.NUMBER, value: 1 },
+            { type: TokenType.NUMBER, value: BigInt(1) },
             { type: TokenType.PLUS },
-            { type: TokenType.NUMBER, value: 2 },
+            { type: TokenType.NUMBER, value: BigInt(2) },
         ]);
     });
 
@@ -209,6 +305,57 @@ describe("tokenizer", () => {
         expectArray(tokenize("\"\""), [{ type: TokenType.STRING, value: "" }]);
     });
 
+    test("can tokenize escape sequences in a string", () => {
+        expectArray(tokenize(`"a\\nb\\tc\\\\d\\"e\\x00\\xFF"`), [{ 
+            type: TokenType.STRING, 
+            value: "a\nb\tc\\d\"e\x00\xff",
+            encoding: undefined,
+        }]);
+    });
+
+    test("non-ASCII characters in a string are encoded as UTF-8", () => {
+        expectArray(tokenize("\"\u00e9\""), [{ type: TokenType.STRING, value: "\xc3\xa9" }]);
+    });
+
+    test("can tokenize prefixed strings", () => {
+        expectArray(tokenize(`hex"deadBEEF"`), [{ type: TokenType.STRING, value: "deadBEEF", encoding: "hex" }]);
+        expectArray(tokenize(`b64"3q2+7w=="`), [{ type: TokenType.STRING, value: "3q2+7w==", encoding: "base64" }]);
+        expectArray(tokenize(`base64"3q2+7w=="`), [{ type: TokenType.STRING, value: "3q2+7w==", encoding: "base64" }]);
+        expectArray(tokenize(`b32"32W353Y="`), [{ type: TokenType.STRING, value: "32W353Y=", encoding: "base32" }]);
+        expectArray(tokenize(`base32"32W353Y="`), [{ type: TokenType.STRING, value: "32W353Y=", encoding: "base32" }]);
+    });
+
+    test("prefixed strings don't have escape sequences", () => {
+        expectArray(tokenize(`hex"\\x"`), [{ type: TokenType.STRING, value: "\\x", encoding: "hex" }]);
+    });
+
+    test("a prefix followed by whitespace is an identifier", () => {
+        expectArray(tokenize(`hex "ab"`), [
+            { type: TokenType.IDENTIFIER, value: "hex" }, 
+            { type: TokenType.STRING, value: "ab", encoding: undefined },
+        ]);
+    });
+
+    test("error for invalid escape sequence", () => {
+        expectArray(retreiveErrors(`"ab\\q"`), [{ 
+            message: `Invalid escape sequence "\\q" in string literal.`,
+            line: 1, 
+            column: 3,
+        }]);
+        expectArray(retreiveErrors(`"\\x4"`), [{ 
+            message: `Invalid escape sequence "\\x" in string literal.`,
+            line: 1, 
+            column: 1,
+        }]);
+    });
+
+    test("error for invalid prefixed strings", () => {
+        expectArray(retreiveErrors(`hex"abc"`), [{ message: `Invalid hex string literal "abc".`, line: 1, column: 0 }]);
+        expectArray(retreiveErrors(`hex"zz"`), [{ message: `Invalid hex string literal "zz".` }]);
+        expectArray(retreiveErrors(`b64"abc"`), [{ message: `Invalid base64 string literal "abc".` }]);
+        expectArray(retreiveErrors(`b32"abc1"`), [{ message: `Invalid base32 string literal "abc1".` }]);
+    });
+
     test("error for unterminated string", () => {
         expectArray(retreiveErrors("\"unterminated string"), [{ 
             message: "Unterminated string literal.",
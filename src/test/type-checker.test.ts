@@ -0,0 +1,193 @@
+import { ASTNode } from "../ast";
+import { IError } from "../error";
+import { parse, parseExpression } from "../parser";
+import { SymbolResolution } from "../symbol-resolution";
+import { SymbolTable } from "../symbol-table";
+import { TypeChecker } from "../type-checker";
+import { formatType, isAssignable } from "../type";
+import { expectArray } from "./lib/utils";
+
+describe("type checker", () => {
+
+    //
+    // Resolves symbols and checks types for an AST.
+    //
+    function checkTypes(ast: ASTNode) {
+        let errors: IError[] = [];
+        const onError = (err: IError) => { 
+            if (err.severity !== "warning") {
+                errors.push(err);
+            }
+        };
+        const symbolResolution = new SymbolResolution(onError);
+        symbolResolution.resolveSymbols(ast, new SymbolTable(1));
+        expect(errors).toEqual([]);
+
+        const typeChecker = new TypeChecker(onError);
+        typeChecker.checkTypes(ast);
+        return { errors };
+    }
+
+    //
+    // Parses code and checks types.
+    //
+    function checkCode(code: string) {
+        const ast = parse(code, err => { throw new Error(err.message) });
+        return { ast, ...checkTypes(ast) };
+    }
+
+    //
+    // Parses an expression and infers its type.
+    //
+    function expressionType(code: string) {
+        const ast = parseExpression(code, err => { throw new Error(err.message) });
+        const { errors } = checkTypes(ast);
+        expect(errors).toEqual([]);
+        return formatType(ast.type!);
+    }
+
+    for (const [expression, expected] of [
+            ["1", "uint64"],
+            ["\"abc\"", "byte[]"],
+            ["1 + 2 * 3", "uint64"],
+            ["\"a\" == \"b\"", "uint64"],
+            ["(1, \"a\")", "(uint64, byte[])"],
+            ["1 ? \"a\" : \"b\"", "byte[]"],
+            ["txn.Amount", "uint64"],
+            ["txn.Sender", "byte[]"],
+            ["txn.ApplicationArgs[0]", "byte[]"],
+            ["gtxn[0].Amount", "uint64"],
+            ["global.ZeroAddress", "byte[]"],
+            ["global.GroupSize", "uint64"],
+            ["OnComplete.NoOp", "uint64"],
+            ["btoi(\"a\")", "uint64"],
+            ["itob(1)", "byte[]"],
+            ["appGlobalGet(\"a\")", "any"],
+        ]) {
+        it(`type of ${expression} is ${expected}`, () => {
+            expect(expressionType(expression)).toEqual(expected);
+        });
+    }
+
+    for (const [code, message] of [
+            ["txn.Amount + \"abc\";", `The operand of "+" should be uint64, found byte[].`],
+            ["!\"abc\";", `The operand of "!" should be uint64, found byte[].`],
+            ["\"a\" << 1;", `The operand of "<<" should be uint64, found byte[].`],
+            ["1 == \"a\";", `Can't compare uint64 with byte[] using "==".`],
+            ["(1, 2) != 1;", `The operand of "!=" should be uint64 or byte[], found (uint64, uint64).`],
+            ["btoi(5);", `Argument 1 to btoi should be byte[], found uint64.`],
+            ["itob(\"a\");", `Argument 1 to itob should be uint64, found byte[].`],
+            ["exit(\"a\");", `Argument 1 to exit should be uint64, found byte[].`],
+            ["if (\"a\") {}", `The condition of an if statement should be uint64, found byte[].`],
+            ["while (\"a\") {}", `The condition of a loop should be uint64, found byte[].`],
+            ["do {} while (\"a\");", `The condition of a loop should be uint64, found byte[].`],
+            ["1 ? 2 : \"a\";", `Both branches of a conditional expression must have the same type, found uint64 and byte[].`],
+            ["switch (1) { case \"a\": }", `The case value should be uint64, found byte[].`],
+            ["let x = 1; x = \"a\";", `The value assigned to x should be uint64, found byte[].`],
+            ["let (a, b) = 1;", `Expected a tuple with 2 values, found uint64.`],
+            ["let x = exit(1);", `Can't initialize x from an expression that has no value.`],
+            ["function f(): uint64 { return \"a\"; }", `The value returned from f should be uint64, found byte[].`],
+            ["function f(): (uint64, byte[]) { return (1, 2); }", `The value returned from f should be (uint64, byte[]), found (uint64, uint64).`],
+            ["function f(): void { return 1; }", `Function f is void and can't return a value.`],
+            ["let x: uint64 = \"a\";", `The value assigned to x should be uint64, found byte[].`],
+            ["const k: byte[] = 1;", `The value assigned to k should be byte[], found uint64.`],
+            ["let x: byte[]; x = 1;", `The value assigned to x should be byte[], found uint64.`],
+            ["let (a, b): (uint64, byte[]) = (1, 2);", `The value assigned to b should be byte[], found uint64.`],
+            ["function f(a: byte[]): uint64 { return a + 1; }", `The operand of "+" should be uint64, found byte[].`],
+            ["function f(a: uint64, b: byte[]): uint64 { return btoi(a); }", `Argument 1 to btoi should be byte[], found uint64.`],
+            ["function f(): byte[] { return \"a\"; } let x = f() + 1;", `The operand of "+" should be uint64, found byte[].`],
+            ["function f(a: uint64, b: byte[]): void {} f(1, 2);", `Argument 2 to f should be byte[], found uint64.`],
+            ["function v(): void {} function g(a): uint64 { return a; } g(v());", `Argument 1 to g should be a single value, found void.`],
+            ["function f(): (uint64, uint64) { return (1, 2); } function g(a): uint64 { return a; } g(f());", `Argument 1 to g should be a single value, found (uint64, uint64).`],
+            ["let x = \"a\"; const y = (1, x);", `Can't initialize y from (uint64, byte[]), a variable can only hold one value.`],
+            ["let x = (1, 2);", `Can't initialize x from (uint64, uint64), a variable can only hold one value.`],
+            ["function f(): (uint64, uint64) { return (1, 2); } let x; x = f();", `Can't assign (uint64, uint64) to x, a variable can only hold one value.`],
+        ]) {
+        it(`reports an error for: ${code}`, () => {
+            const { errors } = checkCode(code);
+            expectArray(errors, [
+                {
+                    message: message,
+                },
+            ]);
+        });
+    }
+
+    it("variable types are inferred from their initializer", () => {
+        const { ast, errors } = checkCode(`let x = "a"; const y = 1;`);
+        expect(errors).toEqual([]);
+        expect(formatType(ast.children![0].symbol!.valueType!)).toEqual("byte[]");
+        expect(formatType(ast.children![1].symbol!.valueType!)).toEqual("uint64");
+    });
+
+    it("destructured variable types are inferred from the tuple", () => {
+        const { ast, errors } = checkCode(`function f(): (uint64, byte[]) { return (1, "a"); } let (a, b) = f();`);
+        expect(errors).toEqual([]);
+        const [ a, b ] = ast.children![1].symbols!;
+        expect(formatType(a.valueType!)).toEqual("uint64");
+        expect(formatType(b.valueType!)).toEqual("byte[]");
+    });
+
+    it("annotated code type checks", () => {
+        const { errors } = checkCode(`
+            function pay(receiver: byte[], amount: uint64): uint64 {
+                let total: uint64 = amount + 1;
+                const label: byte[] = receiver;
+                return total;
+            }
+            let (a, b): (uint64, byte[]) = (1, "a");
+        `);
+        expect(errors).toEqual([]);
+    });
+
+    it("values of unknown type aren't checked", () => {
+        const { errors } = checkCode(`
+            let x;
+            x = 1;
+            x = "a";
+            function f(a): uint64 {
+                return a + 1;
+            }
+            let y = appGlobalGet("key") + 1;
+        `);
+        expect(errors).toEqual([]);
+    });
+
+    it("argument type errors are reported at the function call", () => {
+        const { errors } = checkCode(`function f(a: uint64): void {}\nlet x = 1;\n  f("a");`);
+        expectArray(errors, [
+            {
+                message: `Argument 1 to f should be uint64, found byte[].`,
+                line: 3,
+                column: 2,
+            },
+        ]);
+    });
+
+    it("type errors are reported at the location of the node", () => {
+        const { errors } = checkCode(`let x = 1;\nif (x) {\n    x = x + "abc";\n}`);
+        expectArray(errors, [
+            {
+                message: `The operand of "+" should be uint64, found byte[].`,
+                line: 3,
+                column: 8,
+            },
+        ]);
+    });
+
+    it("reports every error", () => {
+        const { errors } = checkCode(`
+            btoi(1);
+            if (1) {
+                itob("a");
+            }
+        `);
+        expect(errors.length).toBe(2);
+    });
+
+    it("any is assignable to and from everything except void", () => {
+        expect(isAssignable({ type: "any" }, { type: "uint64" })).toBe(true);
+        expect(isAssignable({ type: "byte[]" }, { type: "any" })).toBe(true);
+        expect(isAssignable({ type: "any" }, { type: "void" })).toBe(false);
+    });
+});
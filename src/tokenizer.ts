@@ -2,6 +2,7 @@
 // Tokenizer for the Aqua language.
 //
 
+import { MAX_UINT64 } from "./config";
 import { IError, OnErrorFn } from "./error";
 
 export enum TokenType {
@@ -51,6 +52,27 @@ export enum TokenType {
     VOID,
     UINT64,
     BYTE,
+    BREAK,
+    CONTINUE,
+    MODULO,
+    BITWISE_AND,
+    BITWISE_OR,
+    BITWISE_XOR,
+    BITWISE_NOT,
+    SHL,
+    SHR,
+    PLUS_ASSIGNMENT,
+    MINUS_ASSIGNMENT,
+    MULTIPLY_ASSIGNMENT,
+    DIVIDE_ASSIGNMENT,
+    MODULO_ASSIGNMENT,
+    INCREMENT,
+    DECREMENT,
+    QUESTION,
+    SWITCH,
+    CASE,
+    DEFAULT,
+    DO,
 };
 
 //
@@ -102,6 +124,28 @@ export const TOKEN_NAME = [
     "string literal",
     "void",
     "uint64",
+    "byte",
+    "break",
+    "continue",
+    "%",
+    "&",
+    "|",
+    "^",
+    "~",
+    "<<",
+    ">>",
+    "+=",
+    "-=",
+    "*=",
+    "/=",
+    "%=",
+    "++",
+    "--",
+    "?",
+    "switch",
+    "case",
+    "default",
+    "do",
 ];
 
 //
@@ -124,14 +168,37 @@ const SINGLE_CHARACTER_OPERATORS = {
     ">": TokenType.GT,
     "*": TokenType.MULTIPLY,
     "/": TokenType.DIVIDE,
+    "%": TokenType.MODULO,
     "!": TokenType.NOT,
     ".": TokenType.DOT,
+    "&": TokenType.BITWISE_AND,
+    "|": TokenType.BITWISE_OR,
+    "^": TokenType.BITWISE_XOR,
+    "~": TokenType.BITWISE_NOT,
+    "?": TokenType.QUESTION,
 }
 
 //
 // A lookup table for two character operators.
 //
 const TWO_CHARACTER_OPERATORS = {
+    "+": {
+        "=": TokenType.PLUS_ASSIGNMENT,
+        "+": TokenType.INCREMENT,
+    },
+    "-": {
+        "=": TokenType.MINUS_ASSIGNMENT,
+        "-": TokenType.DECREMENT,
+    },
+    "*": {
+        "=": TokenType.MULTIPLY_ASSIGNMENT,
+    },
+    "/": {
+        "=": TokenType.DIVIDE_ASSIGNMENT,
+    },
+    "%": {
+        "=": TokenType.MODULO_ASSIGNMENT,
+    },
     "&": {
         "&": TokenType.AND,
     },
@@ -146,9 +213,11 @@ const TWO_CHARACTER_OPERATORS = {
     },
     "<": {
         "=": TokenType.LTE,
+        "<": TokenType.SHL,
     },
     ">": {
         "=": TokenType.GTE,
+        ">": TokenType.SHR,
     },
 }
 
@@ -174,6 +243,62 @@ export const KEYWORDS = {
     void: TokenType.VOID,
     uint64: TokenType.UINT64,
     byte: TokenType.BYTE,
+    break: TokenType.BREAK,
+    continue: TokenType.CONTINUE,
+    switch: TokenType.SWITCH,
+    case: TokenType.CASE,
+    default: TokenType.DEFAULT,
+    do: TokenType.DO,
+};
+
+//
+// Digits that are valid in a decimal number.
+//
+const DECIMAL_DIGITS = "0123456789";
+
+//
+// Maps the character after a leading 0 to the digits that are valid for that radix.
+//
+const RADIX_PREFIXES = {
+    x: "0123456789abcdef",
+    b: "01",
+    o: "01234567",
+};
+
+//
+// Maps the prefix of a string literal to the encoding of its value.
+//
+const STRING_PREFIXES = {
+    hex: "hex",
+    b64: "base64",
+    base64: "base64",
+    b32: "base32",
+    base32: "base32",
+};
+
+//
+// The encodings that prefixed string literals can use.
+//
+export type StringEncoding = "hex" | "base64" | "base32";
+
+//
+// Checks that the value of a prefixed string literal is correctly encoded.
+//
+const STRING_VALIDATORS: { [encoding in StringEncoding]: RegExp } = {
+    hex: /^([0-9a-fA-F]{2})*$/,
+    base64: /^([A-Za-z0-9+/]{4})*([A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+    base32: /^[A-Z2-7]*=*$/,
+};
+
+//
+// Maps the character after a backslash to the character that the escape sequence represents.
+//
+const ESCAPE_SEQUENCES = {
+    n: "\n",
+    r: "\r",
+    t: "\t",
+    "\\": "\\",
+    "\"": "\"",
 };
 
 //
@@ -190,6 +315,16 @@ export interface IToken {
     //
     readonly value?: any;
 
+    //
+    // The encoding of a prefixed string literal, undefined for a plain string literal.
+    //
+    readonly encoding?: StringEncoding;
+
+    //
+    // Text of the doc comment (/// lines) that precedes the token, if any.
+    //
+    readonly docComment?: string;
+
     //
     // Line number where the token starts.
     //
@@ -200,6 +335,26 @@ export interface IToken {
     //
     readonly column: number;
 
+    //
+    // Offset in the source code where the token starts.
+    //
+    readonly offset: number;
+
+    //
+    // Line number where the token ends.
+    //
+    readonly endLine: number;
+
+    //
+    // Column number just after the end of the token.
+    //
+    readonly endColumn: number;
+
+    //
+    // Offset in the source code just after the end of the token.
+    //
+    readonly endOffset: number;
+
     //
     // The string value of the token.
     //
@@ -283,6 +438,11 @@ export class Tokenizer implements ITokenizer {
     //
     private curToken?: IToken;
 
+    //
+    // Lines of doc comment waiting to be attached to the next token.
+    //
+    private docCommentLines: string[] = [];
+
     //
     // A simple interface that allows the tokenizer to report an error and continue scanning.
     //
@@ -323,11 +483,27 @@ export class Tokenizer implements ITokenizer {
             const ch = this.advance();
 
             if (ch === "/" && this.peek() === "/") {
+                this.advance();
+
+                if (this.peek() === "/" && this.code[this.curPosition + 1] !== "/") {
+                    // Doc comment, attached to the next token.
+                    this.advance();
+                    this.docComment();
+                    continue;
+                }
+
                 // Single line comment.
                 this.skipToNewLine();
                 continue;
             }
 
+            if (ch === "/" && this.peek() === "*") {
+                // Block comment.
+                this.advance();
+                this.skipBlockComment();
+                continue;
+            }
+
             const twoCharacterTokenLookup = (TWO_CHARACTER_OPERATORS as any)[ch];
             if (twoCharacterTokenLookup !== undefined) {
                 const nextCh = this.peek();
@@ -419,8 +595,25 @@ export class Tokenizer implements ITokenizer {
 
     //
     // Sets the current token.
-    //
-    private setCurrent(token: IToken) {
+    // The token ends at the current position, because it has just been scanned.
+    //
+    private setCurrent(scannedToken: Omit<IToken, "offset" | "endLine" | "endColumn" | "endOffset">) {
+        let token: IToken = {
+            ...scannedToken,
+            offset: scannedToken.type === TokenType.EOF ? this.curPosition : this.curTokenStart!,
+            endLine: this.curLine,
+            endColumn: this.curColumn,
+            endOffset: this.curPosition,
+        };
+
+        if (this.docCommentLines.length > 0) {
+            token = {
+                ...token,
+                docComment: this.docCommentLines.join("\n"),
+            };
+            this.docCommentLines = [];
+        }
+
         this.curToken = token;
     }
 
@@ -482,6 +675,45 @@ export class Tokenizer implements ITokenizer {
         } 
     }
 
+    //
+    // Skips to the end of a block comment.
+    //
+    private skipBlockComment(): void {
+        while (true) {
+            const ch = this.peek();
+            if (ch === undefined) {
+                this.raiseError({
+                    message: "Unterminated block comment.",
+                    line: this.curTokenLine!,
+                    column: this.curTokenColumn!,
+                });
+                break;
+            }
+
+            this.advance();
+
+            if (ch === "*" && this.peek() === "/") {
+                this.advance();
+                break; // End of block comment.
+            }
+        }
+    }
+
+    //
+    // Reads the text of a doc comment up to the next new line.
+    //
+    private docComment(): void {
+        const textStart = this.curPosition;
+        this.skipToNewLine();
+
+        let text = this.code.substring(textStart, this.curPosition);
+        if (text.startsWith(" ")) {
+            text = text.substring(1);
+        }
+
+        this.docCommentLines.push(text.replace(/\r$/, ""));
+    }
+
     //
     // https://stackoverflow.com/a/38370808/25868
     //
@@ -507,17 +739,61 @@ export class Tokenizer implements ITokenizer {
 
     //
     // Reads the subsequent digits of a number token.
+    // Numbers can be decimal or prefixed with 0x (hex), 0b (binary) or 0o (octal) and digits can be separated with _.
     //
     private readNumber(): void {
-        while (this.isDigit(this.peek())) {
+        let prefix = "";
+        let validDigits = DECIMAL_DIGITS;
+
+        const firstCh = this.code[this.curTokenStart!];
+        const radixCh = this.peek();
+        if (firstCh === "0" && radixCh !== undefined) {
+            const radix = (RADIX_PREFIXES as any)[radixCh.toLowerCase()];
+            if (radix !== undefined) {
+                this.advance();
+                prefix = `0${radixCh.toLowerCase()}`;
+                validDigits = radix;
+            }
+        }
+
+        //
+        // Scan all alphanumeric characters so that a malformed number is reported as a single error.
+        //
+        while (this.isAlphaNumeric(this.peek())) {
             this.advance();
         }
 
         const stringValue = this.code.substring(this.curTokenStart!, this.curPosition);
+        const digits = stringValue.substring(prefix.length);
+
+        let value = BigInt(0);
+
+        if (digits.length === 0
+            || digits.startsWith("_")
+            || digits.endsWith("_")
+            || digits.includes("__")
+            || !Array.from(digits).every(ch => ch === "_" || validDigits.includes(ch.toLowerCase()))) {
+            this.raiseError({
+                message: `Invalid number literal "${stringValue}".`,
+                line: this.curTokenLine!,
+                column: this.curTokenColumn!,
+            });
+        }
+        else {
+            value = BigInt(prefix + digits.replace(/_/g, ""));
+            if (value > MAX_UINT64) {
+                this.raiseError({
+                    message: `Number literal "${stringValue}" is too large to fit in a uint64.`,
+                    line: this.curTokenLine!,
+                    column: this.curTokenColumn!,
+                });
+                value = BigInt(0);
+            }
+        }
 
         this.setCurrent({ 
             type: TokenType.NUMBER, 
-            value: parseFloat(stringValue),
+            value: value,
             line: this.curTokenLine!,
             column: this.curTokenColumn!,
             string: stringValue,
@@ -554,6 +830,17 @@ export class Tokenizer implements ITokenizer {
         }
 
         const stringValue = this.code.substring(this.curTokenStart!, this.curPosition);
+
+        const stringEncoding: StringEncoding | undefined = (STRING_PREFIXES as any)[stringValue];
+        if (stringEncoding !== undefined && this.peek() === "\"") {
+            //
+            // A prefixed string literal, e.g. hex"deadbeef".
+            //
+            this.advance();
+            this.stringLiteral(stringEncoding);
+            return;
+        }
+
         const tokenType = (KEYWORDS as any)[stringValue];
         if (tokenType === undefined) {
             this.setCurrent({ 
@@ -576,8 +863,15 @@ export class Tokenizer implements ITokenizer {
 
     //
     // Reads the characters of a string literal.
+    // Plain string literals can contain escape sequences, their value is the string's bytes with one character per byte.
+    // Prefixed string literals are raw and their value is the encoded text.
     //
-    private stringLiteral(): void {
+    private stringLiteral(encoding?: StringEncoding): void {
+        const contentStart = this.curPosition;
+        let contentEnd: number | undefined;
+        let value = "";
+        let unescaped = "";
+
         while (true) {
             const ch = this.peek();
             if (ch === undefined) {
@@ -598,20 +892,91 @@ export class Tokenizer implements ITokenizer {
                 });
                 break;
             }
-            this.advance();
+
             if (ch === "\"") {
+                contentEnd = this.curPosition;
+                this.advance();
                 break; // End of string literal.
             }
+
+            const escapeLine = this.curLine;
+            const escapeColumn = this.curColumn;
+            this.advance();
+
+            if (ch === "\\" && encoding === undefined) {
+                value += encodeUtf8(unescaped);
+                unescaped = "";
+                value += this.escapeSequence(escapeLine, escapeColumn);
+            }
+            else {
+                unescaped += ch;
+            }
+        }
+
+        const string = this.code.substring(contentStart, contentEnd !== undefined ? contentEnd : this.curPosition);
+
+        if (encoding === undefined) {
+            value += encodeUtf8(unescaped);
         }
+        else {
+            value = unescaped;
 
-        const value = this.code.substring(this.curTokenStart! + 1, this.curPosition - 1);
+            if (!STRING_VALIDATORS[encoding].test(value)) {
+                this.raiseError({
+                    message: `Invalid ${encoding} string literal "${value}".`,
+                    line: this.curTokenLine!,
+                    column: this.curTokenColumn!,
+                });
+            }
+        }
 
         this.setCurrent({ 
             type: TokenType.STRING, 
             value: value,
+            encoding: encoding,
             line: this.curTokenLine!,
             column: this.curTokenColumn!,
-            string: value,
+            string: string,
         }); 
     }
-}
\ No newline at end of file
+
+    //
+    // Reads the characters of an escape sequence that follows a backslash and returns the byte it represents.
+    //
+    private escapeSequence(line: number, column: number): string {
+        const escapeStart = this.curPosition - 1;
+        const ch = this.peek();
+        if (ch !== undefined && ch !== "\n") {
+            this.advance();
+
+            const escapedCh = (ESCAPE_SEQUENCES as any)[ch];
+            if (escapedCh !== undefined) {
+                return escapedCh;
+            }
+
+            if (ch === "x") {
+                const hexDigits = this.code.substring(this.curPosition, this.curPosition + 2);
+                if (/^[0-9a-fA-F]{2}$/.test(hexDigits)) {
+                    this.advance();
+                    this.advance();
+                    return String.fromCharCode(parseInt(hexDigits, 16));
+                }
+            }
+        }
+
+        this.raiseError({
+            message: `Invalid escape sequence "${this.code.substring(escapeStart, this.curPosition)}" in string literal.`,
+            line: line,
+            column: column,
+        });
+        return "";
+    }
+}
+
+//
+// Encodes a string as UTF-8 with one character per byte.
+//
+function encodeUtf8(input: string): string {
+    return encodeURIComponent(input)
+        .replace(/%([0-9A-F]{2})/g, (match, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
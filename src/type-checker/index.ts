@@ -0,0 +1,159 @@
+import { ASTNode } from "../ast";
+import { locateError, OnErrorFn } from "../error";
+import { formatType, isAssignable, IType } from "../type";
+
+//
+// Defines a function that can visit nodes in the AST to check and infer types.
+// Returns the type of the value produced by the node.
+//
+type NodeVisitorFn = (node: ASTNode, typeChecker: ITypeChecker) => IType;
+
+//
+// Lookup table for cached visitors.
+//
+interface INodeVisitorMap {
+    [index: string]: NodeVisitorFn | undefined;
+}
+
+//
+// Lookup table to cached visitors.
+//
+export const visitors: INodeVisitorMap = {
+    "assignment": require("./visitors/assignment").default,
+    "conditional-expression": require("./visitors/conditional-expression").default,
+    "declare-variable": require("./visitors/declare-variable").default,
+    "do-while-statement": require("./visitors/do-while-statement").default,
+    "function-call": require("./visitors/function-call").default,
+    "function-declaration": require("./visitors/function-declaration").default,
+    "identifier": require("./visitors/identifier").default,
+    "if-statement": require("./visitors/if-statement").default,
+    "number": require("./visitors/number").default,
+    "operation": require("./visitors/operation").default,
+    "return-statement": require("./visitors/return-statement").default,
+    "string-literal": require("./visitors/string-literal").default,
+    "switch-statement": require("./visitors/switch-statement").default,
+    "tuple": require("./visitors/tuple").default,
+    "while-statement": require("./visitors/while-statement").default,
+};
+
+//
+// Throws an error if a value of the actual type can't be used where the expected type is required.
+// The description says what the value is, e.g. "The condition of an if statement".
+//
+export function expectType(expected: IType, actual: IType, description: string): void {
+    if (!isAssignable(expected, actual)) {
+        throw new Error(`${description} should be ${formatType(expected)}, found ${formatType(actual)}.`);
+    }
+}
+
+//
+// Gets the types of the values assigned to each variable when a tuple is destructured.
+//
+export function destructureType(valueType: IType, numVariables: number): IType[] {
+    if (valueType.type === "any") {
+        return new Array<IType>(numVariables).fill({ type: "any" });
+    }
+
+    if (valueType.type !== "tuple" || valueType.children!.length !== numVariables) {
+        throw new Error(`Expected a tuple with ${numVariables} values, found ${formatType(valueType)}.`);
+    }
+
+    return valueType.children!;
+}
+
+//
+// Handles type checking for the Aqua compiler.
+//
+export interface ITypeChecker {
+
+    //
+    // Tracks the function for which we are checking types.
+    //
+    curFunction?: ASTNode;
+
+    //
+    // Infers types for expressions and checks that values are used where their types are expected.
+    //
+    checkTypes(ast: ASTNode): void;
+
+    //
+    // Visits a node to check types. Returns the type of the value produced by the node.
+    //
+    visitNode(node: ASTNode): IType;
+
+    //
+    // Visits each child to check types. Returns the types of the children.
+    //
+    visitChildren(node: ASTNode): IType[];
+}
+
+//
+// Handles type checking for the Aqua compiler.
+//
+export class TypeChecker implements ITypeChecker {
+
+    //
+    // Tracks the function for which we are checking types.
+    //
+    curFunction?: ASTNode = undefined;
+
+    //
+    // A simple interface that allows the type checker to report an error and continue checking.
+    //
+    private onError: OnErrorFn;
+
+    constructor(onError: OnErrorFn) {
+        this.onError = onError;
+    }
+
+    //
+    // Infers types for expressions and checks that values are used where their types are expected.
+    //
+    checkTypes(ast: ASTNode): void {
+        this.curFunction = undefined;
+        this.visitNode(ast);
+    }
+
+    //
+    // Visits a node to check types. Returns the type of the value produced by the node.
+    //
+    visitNode(node: ASTNode): IType {
+        let visitor = visitors[node.nodeType];
+        if (!visitor) {
+            //
+            // Default the visitor.
+            //
+            visitor = visitors[node.nodeType] = (node, typeChecker) => {
+                typeChecker.visitChildren(node);
+                return { type: "void" };
+            }
+        }
+
+        try {
+            node.type = visitor(node, this);
+        }
+        catch (err: any) {
+            this.onError(locateError(err, node));
+
+            //
+            // Stops the error cascading to the enclosing expression.
+            //
+            node.type = { type: "any" };
+        }
+
+        return node.type;
+    }
+
+    //
+    // Visits each child to check types. Returns the types of the children.
+    //
+    visitChildren(node: ASTNode): IType[] {
+        const types: IType[] = [];
+        if (node.children) {
+            for (const child of node.children) {
+                types.push(this.visitNode(child));
+            }
+        }
+        return types;
+    }
+}
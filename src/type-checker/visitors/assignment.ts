@@ -0,0 +1,31 @@
+import { destructureType, expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { formatType, IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const [ valueType ] = typeChecker.visitChildren(node);
+
+    if (node.symbol) {
+        if (valueType.type === "void") {
+            throw new Error(`Can't assign to ${node.symbol.name} from an expression that has no value.`);
+        }
+
+        if (valueType.type === "tuple") {
+            throw new Error(`Can't assign ${formatType(valueType)} to ${node.symbol.name}, a variable can only hold one value.`);
+        }
+
+        if (node.symbol.valueType) {
+            expectType(node.symbol.valueType, valueType, `The value assigned to ${node.symbol.name}`);
+        }
+    }
+    else if (node.symbols) {
+        const elementTypes = destructureType(valueType, node.symbols.length);
+        node.symbols.forEach((symbol, index) => {
+            if (symbol.valueType) {
+                expectType(symbol.valueType, elementTypes[index], `The value assigned to ${symbol.name}`);
+            }
+        });
+    }
+
+    return valueType;
+}
@@ -0,0 +1,18 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { formatType, isAssignable, IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const [ conditionType, consequentType, alternateType ] = typeChecker.visitChildren(node);
+
+    expectType({ type: "uint64" }, conditionType, `The condition of a conditional expression`);
+
+    if (!isAssignable(consequentType, alternateType)) {
+        throw new Error(`Both branches of a conditional expression must have the same type, found ${formatType(consequentType)} and ${formatType(alternateType)}.`);
+    }
+
+    //
+    // Prefer the branch whose type is known.
+    //
+    return consequentType.type !== "any" ? consequentType : alternateType;
+}
@@ -0,0 +1,46 @@
+import { destructureType, expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { ISymbol } from "../../symbol";
+import { formatType, IType } from "../../type";
+
+//
+// Sets the type of a variable from the type of its initial value, or checks the value if the type is already known.
+//
+function initializeSymbol(symbol: ISymbol, valueType: IType): void {
+    if (valueType.type === "void") {
+        throw new Error(`Can't initialize ${symbol.name} from an expression that has no value.`);
+    }
+
+    if (valueType.type === "tuple") {
+        throw new Error(`Can't initialize ${symbol.name} from ${formatType(valueType)}, a variable can only hold one value.`);
+    }
+
+    if (symbol.valueType) {
+        expectType(symbol.valueType, valueType, `The value assigned to ${symbol.name}`);
+    }
+    else {
+        symbol.valueType = valueType;
+    }
+}
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    if (!node.initializer) {
+        return { type: "void" };
+    }
+
+    //
+    // The initializer is an assignment to the variable, its value is the first child.
+    //
+    const [ valueType ] = typeChecker.visitChildren(node.initializer);
+    node.initializer.type = valueType;
+
+    if (node.symbol) {
+        initializeSymbol(node.symbol, valueType);
+    }
+    else if (node.symbols) {
+        const elementTypes = destructureType(valueType, node.symbols.length);
+        node.symbols.forEach((symbol, index) => initializeSymbol(symbol, elementTypes[index]));
+    }
+
+    return { type: "void" };
+}
@@ -0,0 +1,13 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    typeChecker.visitNode(node.body!);
+
+    const [ conditionType ] = typeChecker.visitChildren(node);
+
+    expectType({ type: "uint64" }, conditionType, `The condition of a loop`);
+
+    return { type: "void" };
+}
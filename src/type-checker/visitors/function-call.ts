@@ -0,0 +1,47 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { BUILTINS } from "../../builtins";
+import { formatType, IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const argTypes = (node.functionArgs || []).map(arg => typeChecker.visitNode(arg));
+
+    //
+    // Parameters without a type annotation accept arguments of any type.
+    //
+    const builtin = BUILTINS[node.value!];
+    const paramTypes: (IType | undefined)[] = builtin 
+        ? builtin.params
+        : (node.symbol && node.symbol.params || []).map(param => param.valueType);
+
+    paramTypes.forEach((paramType, index) => {
+        if (paramType && index < argTypes.length) {
+            expectType(paramType, argTypes[index], `Argument ${index+1} to ${node.value}`);
+        }
+    });
+
+    //
+    // Each parameter takes one value from the stack, so void and tuple arguments can't be passed
+    // (unless the parameter has a tuple type, which is checked above).
+    //
+    argTypes.forEach((argType, index) => {
+        const paramType = paramTypes[index];
+        if (paramType && paramType.type === "tuple") {
+            return;
+        }
+
+        if (argType.type === "void" || argType.type === "tuple") {
+            throw new Error(`Argument ${index+1} to ${node.value} should be a single value, found ${formatType(argType)}.`);
+        }
+    });
+
+    if (builtin) {
+        return builtin.returnType;
+    }
+
+    if (node.symbol && node.symbol.returnType) {
+        return node.symbol.returnType;
+    }
+
+    return { type: "any" };
+}
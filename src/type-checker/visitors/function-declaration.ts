@@ -0,0 +1,14 @@
+import { ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const enclosingFunction = typeChecker.curFunction;
+    typeChecker.curFunction = node;
+
+    typeChecker.visitNode(node.body!);
+
+    typeChecker.curFunction = enclosingFunction;
+
+    return { type: "void" };
+}
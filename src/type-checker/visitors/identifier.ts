@@ -0,0 +1,10 @@
+import { ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    //
+    // Variables declared without an initializer have an unknown type.
+    //
+    return node.symbol?.valueType || { type: "any" };
+}
@@ -0,0 +1,17 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const [ conditionType ] = typeChecker.visitChildren(node);
+
+    typeChecker.visitNode(node.ifBlock!);
+
+    if (node.elseBlock) {
+        typeChecker.visitNode(node.elseBlock);
+    }
+
+    expectType({ type: "uint64" }, conditionType, `The condition of an if statement`);
+
+    return { type: "void" };
+}
@@ -0,0 +1,7 @@
+import { ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    return { type: "uint64" };
+}
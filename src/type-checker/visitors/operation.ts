@@ -0,0 +1,110 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { formatType, isAssignable, IType } from "../../type";
+
+const UINT64: IType = { type: "uint64" };
+const BYTES: IType = { type: "byte[]" };
+const ANY: IType = { type: "any" };
+
+//
+// Operators that only work on uint64 values.
+//
+const UINT64_OPERATORS = new Set([
+    "+", "-", "*", "/", "%",
+    "<", "<=", ">", ">=",
+    "&&", "||", "!",
+    "&", "|", "^", "~", "shl", "shr",
+]);
+
+//
+// Operators that compare two values of the same type.
+//
+const EQUALITY_OPERATORS = new Set([ "==", "!=" ]);
+
+//
+// Maps opcodes to the operators they are written as in Aqua, where they differ.
+//
+const OPERATOR_NAMES: { [index: string]: string } = {
+    "shl": "<<",
+    "shr": ">>",
+};
+
+//
+// Transaction fields that are byte[], all other transaction fields are uint64.
+// https://developer.algorand.org/docs/get-details/dapps/avm/teal/opcodes/#txn-f
+//
+const BYTES_TXN_FIELDS = new Set([
+    "Sender", "Receiver", "CloseRemainderTo", "Lease", "Note", "Type", "TxID",
+    "ApplicationArgs", "Accounts", "ApprovalProgram", "ClearStateProgram", "RekeyTo",
+    "AssetSender", "AssetReceiver", "AssetCloseTo", "FreezeAssetAccount",
+    "ConfigAssetName", "ConfigAssetUnitName", "ConfigAssetURL", "ConfigAssetMetadataHash",
+    "ConfigAssetManager", "ConfigAssetReserve", "ConfigAssetFreeze", "ConfigAssetClawback",
+    "VotePK", "SelectionPK", "GroupID", "Logs", "LastLog", "StateProofPK",
+    "ApprovalProgramPages", "ClearStateProgramPages",
+]);
+
+//
+// Global fields that are byte[], all other global fields are uint64.
+// https://developer.algorand.org/docs/get-details/dapps/avm/teal/opcodes/#global-f
+//
+const BYTES_GLOBAL_FIELDS = new Set([
+    "ZeroAddress", "CreatorAddress", "CurrentApplicationAddress", "GroupID", "CallerApplicationAddress",
+]);
+
+//
+// Gets the type of a transaction or global field.
+//
+function fieldType(fieldName: string, bytesFields: Set<string>): IType {
+    return bytesFields.has(fieldName) ? BYTES : UINT64;
+}
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const operandTypes = typeChecker.visitChildren(node);
+    const opcode = node.opcode!;
+    const operatorName = OPERATOR_NAMES[opcode] || opcode;
+
+    if (UINT64_OPERATORS.has(opcode)) {
+        for (const operandType of operandTypes) {
+            expectType(UINT64, operandType, `The operand of "${operatorName}"`);
+        }
+
+        return UINT64;
+    }
+
+    if (EQUALITY_OPERATORS.has(opcode)) {
+        const [ leftType, rightType ] = operandTypes;
+        for (const operandType of operandTypes) {
+            if (operandType.type === "tuple" || operandType.type === "void") {
+                throw new Error(`The operand of "${operatorName}" should be uint64 or byte[], found ${formatType(operandType)}.`);
+            }
+        }
+
+        if (!isAssignable(leftType, rightType)) {
+            throw new Error(`Can't compare ${formatType(leftType)} with ${formatType(rightType)} using "${operatorName}".`);
+        }
+
+        return UINT64;
+    }
+
+    switch (opcode) {
+        case "int":
+            return UINT64;
+
+        case "addr":
+        case "arg":
+            return BYTES;
+
+        case "txn":
+        case "txna":
+            return fieldType(node.args![0], BYTES_TXN_FIELDS);
+
+        case "gtxn":
+        case "gtxna":
+            return fieldType(node.args![1], BYTES_TXN_FIELDS);
+
+        case "global":
+            return fieldType(node.args![0], BYTES_GLOBAL_FIELDS);
+    }
+
+    return ANY;
+}
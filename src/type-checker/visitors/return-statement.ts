@@ -0,0 +1,18 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const [ valueType ] = typeChecker.visitChildren(node);
+
+    const curFunction = typeChecker.curFunction;
+    if (curFunction && curFunction.returnType && valueType) {
+        if (curFunction.returnType.type === "void") {
+            throw new Error(`Function ${curFunction.value} is void and can't return a value.`);
+        }
+
+        expectType(curFunction.returnType, valueType, `The value returned from ${curFunction.value}`);
+    }
+
+    return { type: "void" };
+}
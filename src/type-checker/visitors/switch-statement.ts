@@ -0,0 +1,24 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const [ scrutineeType ] = typeChecker.visitChildren(node);
+
+    const caseTypes: IType[] = [];
+
+    for (const caseNode of node.cases!) {
+        caseTypes.push(...typeChecker.visitChildren(caseNode));
+        typeChecker.visitNode(caseNode.body!);
+    }
+
+    if (scrutineeType.type === "tuple" || scrutineeType.type === "void") {
+        throw new Error(`A switch statement can only switch on uint64 or byte[] values, found ${scrutineeType.type}.`);
+    }
+
+    for (const caseType of caseTypes) {
+        expectType(scrutineeType, caseType, `The case value`);
+    }
+
+    return { type: "void" };
+}
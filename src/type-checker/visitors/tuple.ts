@@ -0,0 +1,10 @@
+import { ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    return {
+        type: "tuple",
+        children: typeChecker.visitChildren(node),
+    };
+}
@@ -0,0 +1,19 @@
+import { expectType, ITypeChecker } from "..";
+import { ASTNode } from "../../ast";
+import { IType } from "../../type";
+
+export default function (node: ASTNode, typeChecker: ITypeChecker): IType {
+    const [ conditionType ] = typeChecker.visitChildren(node); // Loops desugared from a for statement may not have a condition.
+
+    typeChecker.visitNode(node.body!);
+
+    if (node.increment) {
+        typeChecker.visitNode(node.increment);
+    }
+
+    if (conditionType) {
+        expectType({ type: "uint64" }, conditionType, `The condition of a loop`);
+    }
+
+    return { type: "void" };
+}
@@ -4,11 +4,50 @@
 export interface IType {
     //
     // The name of the type.
+    // "any" is used when the type can't be determined, values of this type aren't checked.
     //
-    type: "void" | "uint64" | "byte[]" | "tuple";
+    type: "void" | "uint64" | "byte[]" | "tuple" | "any";
 
     //
     // Children for tuple types.
     //
     children?: IType[];
-}
\ No newline at end of file
+}
+
+//
+// Formats a type for display in error messages.
+//
+export function formatType(type: IType): string {
+    if (type.type === "tuple") {
+        return `(${type.children!.map(formatType).join(", ")})`;
+    }
+
+    return type.type;
+}
+
+//
+// Returns true if a value of the actual type can be used where the expected type is required.
+//
+export function isAssignable(expected: IType, actual: IType): boolean {
+    if (expected.type === "void" || actual.type === "void") {
+        //
+        // Void is never a value.
+        //
+        return expected.type === actual.type;
+    }
+
+    if (expected.type === "any" || actual.type === "any") {
+        return true;
+    }
+
+    if (expected.type === "tuple" || actual.type === "tuple") {
+        if (expected.type !== actual.type 
+            || expected.children!.length !== actual.children!.length) {
+            return false;
+        }
+
+        return expected.children!.every((child, index) => isAssignable(child, actual.children![index]));
+    }
+
+    return expected.type === actual.type;
+}